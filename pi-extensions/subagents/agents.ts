@@ -1,47 +1,115 @@
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
+import { BUILTIN_AGENTS } from "./builtins.js";
+import {
+	SUBAGENT_RUNNERS,
+	type SubagentBudget,
+	type SubagentRunner,
+} from "./runner.js";
 
 export type AgentSource = "builtin" | "user" | "project";
 
+export const THINKING_LEVELS = [
+	"off",
+	"minimal",
+	"low",
+	"medium",
+	"high",
+	"xhigh",
+] as const;
+
+export type ThinkingLevel = (typeof THINKING_LEVELS)[number];
+
+export const ISOLATION_MODES = ["none", "worktree"] as const;
+
+export type IsolationMode = (typeof ISOLATION_MODES)[number];
+
 export interface AgentConfig {
 	name: string;
 	description: string;
 	tools?: string[];
-	model?: string;
+	/** Ordered fallback chain; entries may be model ids, patterns or aliases. */
+	models?: string[];
+	thinking?: ThinkingLevel;
+	budget?: SubagentBudget;
+	timeoutMs?: number;
+	stallTimeoutMs?: number;
+	cwd?: string;
+	/** cwd as written in the frontmatter, so a copied agent stays relative. */
+	cwdSetting?: string;
+	isolation?: IsolationMode;
+	/** Run tools in the Gondolin sandbox. Unset inherits the parent's sandbox state. */
+	sandbox?: boolean;
+	/** Backend for the child: spawn a `pi` process (default) or run in-process. */
+	runner?: SubagentRunner;
+	outputSchema?: Record<string, unknown>;
+	env?: Record<string, string>;
+	flags?: string[];
 	systemPrompt: string;
 	source: AgentSource;
 	filePath?: string;
 }
 
+type FrontmatterValue = string | string[] | Record<string, string>;
+
+/** A problem found while loading an agent file. Skipped files are not loaded at all. */
+export interface AgentFileIssue {
+	filePath: string;
+	source: "user" | "project";
+	skipped: boolean;
+	reason: string;
+}
+
+/** Agents sharing a name, in load order; the last one wins. */
+export interface ShadowedAgent {
+	name: string;
+	winner: AgentConfig;
+	shadowed: AgentConfig[];
+}
+
 export interface AgentDiscoveryResult {
 	agents: AgentConfig[];
 	projectAgentsDir: string | null;
+	userAgentsDir: string;
+	issues: AgentFileIssue[];
+	shadowed: ShadowedAgent[];
 }
 
-const BUILTIN_SCOUT: AgentConfig = {
-	name: "scout",
-	description:
-		"Fast codebase reconnaissance. Use for quick discovery of files, call paths, dependencies, and ownership. Skip for small, local, obvious changes.",
-	tools: ["read", "grep", "find", "ls"],
-	model: "auto-fast",
-	source: "builtin",
-	systemPrompt: `You are Scout, a fast codebase reconnaissance subagent.
+const FRONTMATTER_KEYS = new Set([
+	"name",
+	"description",
+	"tools",
+	"model",
+	"thinking",
+	"maxCost",
+	"maxInputTokens",
+	"maxOutputTokens",
+	"maxTurns",
+	"timeout",
+	"stallTimeout",
+	"cwd",
+	"isolation",
+	"sandbox",
+	"runner",
+	"outputSchema",
+	"env",
+	"flags",
+]);
 
-Rules:
-- Explore quickly and accurately.
-- Use only read-only tooling.
-- Never edit files.
-- Prefer grep/find first, then read targeted ranges.
-
-Output format:
-1) Key findings
-2) Relevant files with why each matters
-3) Suggested next checks`,
-};
+function parseScalar(raw: string): string {
+	return raw
+		.trim()
+		.replace(/^['"]|['"]$/g, "")
+		.trim();
+}
 
+/**
+ * Parses the YAML subset used by agent files: scalars, inline lists
+ * (`[a, b]`), block lists (`- a`) and one level of `key: value` maps.
+ */
 function parseFrontmatter(content: string): {
-	frontmatter: Record<string, string>;
+	frontmatter: Record<string, FrontmatterValue>;
 	body: string;
 } {
 	if (!content.startsWith("---\n")) return { frontmatter: {}, body: content };
@@ -49,24 +117,213 @@ function parseFrontmatter(content: string): {
 	if (end === -1) return { frontmatter: {}, body: content };
 	const raw = content.slice(4, end).trim();
 	const body = content.slice(end + 4).replace(/^\r?\n/, "");
-	const frontmatter: Record<string, string> = {};
+	const frontmatter: Record<string, FrontmatterValue> = {};
+	let blockKey: string | undefined;
 	for (const line of raw.split(/\r?\n/)) {
-		const match = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+		if (!line.trim() || line.trim().startsWith("#")) continue;
+		const indented = /^\s/.test(line);
+		const item = line.match(/^\s*-\s*(.*)$/);
+		if (blockKey && item) {
+			const current = frontmatter[blockKey];
+			const list = Array.isArray(current) ? current : [];
+			list.push(parseScalar(item[1]));
+			frontmatter[blockKey] = list;
+			continue;
+		}
+		const match = line.match(/^\s*([A-Za-z0-9_.-]+):\s*(.*)$/);
 		if (!match) continue;
-		frontmatter[match[1]] = match[2].replace(/^['"]|['"]$/g, "").trim();
+		if (blockKey && indented) {
+			const current = frontmatter[blockKey];
+			const map =
+				typeof current === "object" && !Array.isArray(current) ? current : {};
+			map[match[1]] = parseScalar(match[2]);
+			frontmatter[blockKey] = map;
+			continue;
+		}
+		const value = match[2].trim();
+		blockKey = value ? undefined : match[1];
+		if (!value) continue;
+		frontmatter[match[1]] = /^\[.*\]$/.test(value)
+			? value.slice(1, -1).split(",").map(parseScalar).filter(Boolean)
+			: parseScalar(value);
 	}
 	return { frontmatter, body };
 }
 
+function stringValue(value: FrontmatterValue | undefined): string | undefined {
+	return typeof value === "string" && value ? value : undefined;
+}
+
+function listValue(value: FrontmatterValue | undefined): string[] | undefined {
+	const list =
+		typeof value === "string"
+			? value.split(",").map((item) => item.trim())
+			: Array.isArray(value)
+				? value
+				: [];
+	const filtered = list.filter(Boolean);
+	return filtered.length > 0 ? filtered : undefined;
+}
+
+/**
+ * CLI flags are shell-like: every item, inline or in a block list, is split on
+ * whitespace into argv tokens, and commas are kept (`--foo=a,b` is one token).
+ */
+function flagsValue(value: FrontmatterValue | undefined): string[] | undefined {
+	const items =
+		typeof value === "string" ? [value] : Array.isArray(value) ? value : [];
+	const tokens = items.flatMap((item) => item.split(/\s+/)).filter(Boolean);
+	return tokens.length > 0 ? tokens : undefined;
+}
+
+function mapValue(
+	value: FrontmatterValue | undefined,
+): Record<string, string> | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value))
+		return undefined;
+	return Object.keys(value).length > 0 ? value : undefined;
+}
+
+function positiveInteger(
+	value: FrontmatterValue | undefined,
+): number | undefined {
+	const parsed = Number(stringValue(value));
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function positiveNumber(
+	value: FrontmatterValue | undefined,
+): number | undefined {
+	const parsed = Number(stringValue(value)?.replace(/^\$/, ""));
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function budgetValue(
+	frontmatter: Record<string, FrontmatterValue>,
+): SubagentBudget | undefined {
+	const budget: SubagentBudget = {
+		maxCost: positiveNumber(frontmatter.maxCost),
+		maxInputTokens: positiveInteger(frontmatter.maxInputTokens),
+		maxOutputTokens: positiveInteger(frontmatter.maxOutputTokens),
+		maxTurns: positiveInteger(frontmatter.maxTurns),
+	};
+	return Object.values(budget).some((value) => value !== undefined)
+		? budget
+		: undefined;
+}
+
+export function parseDuration(value: string | undefined): number | undefined {
+	const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/);
+	if (!match) return undefined;
+	const amount = Number(match[1]);
+	const unit = match[2] ?? "s";
+	const factor =
+		unit === "ms" ? 1 : unit === "s" ? 1000 : unit === "m" ? 60000 : 3600000;
+	const ms = Math.round(amount * factor);
+	return ms > 0 ? ms : undefined;
+}
+
+function thinkingValue(
+	value: FrontmatterValue | undefined,
+): ThinkingLevel | undefined {
+	const level = stringValue(value)?.toLowerCase();
+	return THINKING_LEVELS.find((candidate) => candidate === level);
+}
+
+function isolationValue(
+	value: FrontmatterValue | undefined,
+): IsolationMode | undefined {
+	const mode = stringValue(value)?.toLowerCase();
+	return ISOLATION_MODES.find((candidate) => candidate === mode);
+}
+
+function sandboxValue(
+	value: FrontmatterValue | undefined,
+): boolean | undefined {
+	const raw = stringValue(value)?.toLowerCase();
+	if (raw === "true" || raw === "on") return true;
+	if (raw === "false" || raw === "off") return false;
+	return undefined;
+}
+
+function runnerValue(
+	value: FrontmatterValue | undefined,
+): SubagentRunner | undefined {
+	const runner = stringValue(value)?.toLowerCase();
+	return SUBAGENT_RUNNERS.find((candidate) => candidate === runner);
+}
+
+/**
+ * Output schemas are either inline single-line JSON or a path to a JSON file,
+ * resolved relative to the agent file.
+ */
+function outputSchemaValue(
+	value: FrontmatterValue | undefined,
+	agentFile: string,
+): Record<string, unknown> | undefined {
+	const raw = stringValue(value);
+	if (!raw) return undefined;
+	try {
+		const json = raw.startsWith("{")
+			? raw
+			: fs.readFileSync(path.resolve(path.dirname(agentFile), raw), "utf-8");
+		const schema: unknown = JSON.parse(json);
+		return schema && typeof schema === "object" && !Array.isArray(schema)
+			? (schema as Record<string, unknown>)
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Frontmatter keys that are unknown or whose value was given but could not be parsed. */
+function frontmatterWarnings(
+	frontmatter: Record<string, FrontmatterValue>,
+	agent: AgentConfig,
+): string[] {
+	const warnings = Object.keys(frontmatter)
+		.filter((key) => !FRONTMATTER_KEYS.has(key))
+		.map((key) => `unknown frontmatter key "${key}"`);
+	const parsed: Record<string, unknown> = {
+		thinking: agent.thinking,
+		maxCost: agent.budget?.maxCost,
+		maxInputTokens: agent.budget?.maxInputTokens,
+		maxOutputTokens: agent.budget?.maxOutputTokens,
+		maxTurns: agent.budget?.maxTurns,
+		timeout: agent.timeoutMs,
+		stallTimeout: agent.stallTimeoutMs,
+		isolation: agent.isolation,
+		sandbox: agent.sandbox,
+		runner: agent.runner,
+		outputSchema: agent.outputSchema,
+		env: agent.env,
+	};
+	for (const [key, value] of Object.entries(parsed)) {
+		if (frontmatter[key] !== undefined && value === undefined)
+			warnings.push(
+				`invalid ${key} ${JSON.stringify(frontmatter[key])}, ignored`,
+			);
+	}
+	return warnings;
+}
+
 function loadAgentsFromDir(
 	dir: string,
 	source: "user" | "project",
+	baseDir: string,
+	issues: AgentFileIssue[],
 ): AgentConfig[] {
 	if (!fs.existsSync(dir)) return [];
 	let entries: fs.Dirent[];
 	try {
 		entries = fs.readdirSync(dir, { withFileTypes: true });
-	} catch {
+	} catch (error) {
+		issues.push({
+			filePath: dir,
+			source,
+			skipped: true,
+			reason: `directory unreadable: ${error instanceof Error ? error.message : String(error)}`,
+		});
 		return [];
 	}
 
@@ -79,26 +336,54 @@ function loadAgentsFromDir(
 			continue;
 		const filePath = path.join(dir, entry.name);
 		let content = "";
+		const skip = (reason: string) =>
+			issues.push({ filePath, source, skipped: true, reason });
 		try {
 			content = fs.readFileSync(filePath, "utf-8");
-		} catch {
+		} catch (error) {
+			skip(
+				`unreadable: ${error instanceof Error ? error.message : String(error)}`,
+			);
 			continue;
 		}
 		const { frontmatter, body } = parseFrontmatter(content);
-		if (!frontmatter.name || !frontmatter.description) continue;
-		const tools = frontmatter.tools
-			?.split(",")
-			.map((tool) => tool.trim())
-			.filter(Boolean);
-		agents.push({
-			name: frontmatter.name,
-			description: frontmatter.description,
-			tools: tools && tools.length > 0 ? tools : undefined,
-			model: frontmatter.model || undefined,
+		const name = stringValue(frontmatter.name);
+		const description = stringValue(frontmatter.description);
+		if (Object.keys(frontmatter).length === 0) {
+			skip("no frontmatter block (expected --- at the top of the file)");
+			continue;
+		}
+		if (!name || !description) {
+			skip(
+				`missing ${[!name && "name", !description && "description"].filter(Boolean).join(" and ")}`,
+			);
+			continue;
+		}
+		const cwd = stringValue(frontmatter.cwd);
+		const agent: AgentConfig = {
+			name,
+			description,
+			tools: listValue(frontmatter.tools),
+			models: listValue(frontmatter.model),
+			thinking: thinkingValue(frontmatter.thinking),
+			budget: budgetValue(frontmatter),
+			timeoutMs: parseDuration(stringValue(frontmatter.timeout)),
+			stallTimeoutMs: parseDuration(stringValue(frontmatter.stallTimeout)),
+			cwd: cwd ? path.resolve(baseDir, cwd) : undefined,
+			cwdSetting: cwd,
+			isolation: isolationValue(frontmatter.isolation),
+			sandbox: sandboxValue(frontmatter.sandbox),
+			runner: runnerValue(frontmatter.runner),
+			outputSchema: outputSchemaValue(frontmatter.outputSchema, filePath),
+			env: mapValue(frontmatter.env),
+			flags: flagsValue(frontmatter.flags),
 			systemPrompt: body,
 			source,
 			filePath,
-		});
+		};
+		for (const reason of frontmatterWarnings(frontmatter, agent))
+			issues.push({ filePath, source, skipped: false, reason });
+		agents.push(agent);
 	}
 	return agents;
 }
@@ -125,17 +410,74 @@ function findNearestProjectAgentsDir(cwd: string): string | null {
 export function discoverAgents(cwd: string): AgentDiscoveryResult {
 	const userDir = path.join(os.homedir(), ".pi", "agent", "agents");
 	const projectAgentsDir = findNearestProjectAgentsDir(cwd);
-	const userAgents = loadAgentsFromDir(userDir, "user");
+	const issues: AgentFileIssue[] = [];
+	const userAgents = loadAgentsFromDir(userDir, "user", cwd, issues);
 	const projectAgents = projectAgentsDir
-		? loadAgentsFromDir(projectAgentsDir, "project")
+		? loadAgentsFromDir(
+				projectAgentsDir,
+				"project",
+				path.dirname(path.dirname(projectAgentsDir)),
+				issues,
+			)
 		: [];
-	const agentMap = new Map<string, AgentConfig>();
+	const candidates = new Map<string, AgentConfig[]>();
+	for (const agent of [...BUILTIN_AGENTS, ...userAgents, ...projectAgents])
+		candidates.set(agent.name, [...(candidates.get(agent.name) ?? []), agent]);
 
-	agentMap.set(BUILTIN_SCOUT.name, BUILTIN_SCOUT);
-	for (const agent of userAgents) agentMap.set(agent.name, agent);
-	for (const agent of projectAgents) agentMap.set(agent.name, agent);
+	const shadowed: ShadowedAgent[] = [];
+	for (const [name, loaded] of candidates) {
+		if (loaded.length < 2) continue;
+		shadowed.push({
+			name,
+			winner: loaded[loaded.length - 1],
+			shadowed: loaded.slice(0, -1),
+		});
+	}
+
+	return {
+		agents: [...candidates.values()].map((loaded) => loaded[loaded.length - 1]),
+		projectAgentsDir,
+		userAgentsDir: userDir,
+		issues,
+		shadowed,
+	};
+}
 
-	return { agents: [...agentMap.values()], projectAgentsDir };
+function formatMs(ms: number): string {
+	return ms % 1000 === 0 ? `${ms / 1000}s` : `${ms}ms`;
+}
+
+/** Serializes an agent back into the markdown + frontmatter format read by loadAgentsFromDir. */
+export function formatAgentFile(agent: AgentConfig): string {
+	const lines = [
+		"---",
+		`name: ${agent.name}`,
+		`description: ${agent.description}`,
+	];
+	if (agent.tools) lines.push(`tools: ${agent.tools.join(", ")}`);
+	if (agent.models) lines.push(`model: ${agent.models.join(", ")}`);
+	if (agent.thinking) lines.push(`thinking: ${agent.thinking}`);
+	for (const [key, value] of Object.entries(agent.budget ?? {}))
+		if (value !== undefined) lines.push(`${key}: ${value}`);
+	if (agent.timeoutMs) lines.push(`timeout: ${formatMs(agent.timeoutMs)}`);
+	if (agent.stallTimeoutMs)
+		lines.push(`stallTimeout: ${formatMs(agent.stallTimeoutMs)}`);
+	const cwd = agent.cwdSetting ?? agent.cwd;
+	if (cwd) lines.push(`cwd: ${cwd}`);
+	if (agent.isolation) lines.push(`isolation: ${agent.isolation}`);
+	if (agent.sandbox !== undefined)
+		lines.push(`sandbox: ${agent.sandbox ? "on" : "off"}`);
+	if (agent.runner) lines.push(`runner: ${agent.runner}`);
+	if (agent.outputSchema)
+		lines.push(`outputSchema: ${JSON.stringify(agent.outputSchema)}`);
+	if (agent.env) {
+		lines.push("env:");
+		for (const [key, value] of Object.entries(agent.env))
+			lines.push(`  ${key}: ${value}`);
+	}
+	if (agent.flags) lines.push(`flags: ${agent.flags.join(" ")}`);
+	lines.push("---", agent.systemPrompt.trim(), "");
+	return lines.join("\n");
 }
 
 export function formatAgentList(agents: AgentConfig[]): string {
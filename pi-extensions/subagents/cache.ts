@@ -0,0 +1,190 @@
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { promisify } from "node:util";
+import type { SubagentResult } from "./results.js";
+import type { SubagentBudget, SubagentRunner } from "./runner.js";
+
+const execFileAsync = promisify(execFile);
+
+export const SUBAGENT_CACHE_DIR = path.join(
+	os.homedir(),
+	".pi",
+	"agent",
+	"subagent-cache",
+);
+
+/** Everything about a run that can change its output, apart from the tree. */
+export interface CacheKeyInput {
+	agent: string;
+	systemPrompt: string;
+	model: string;
+	thinking?: string;
+	task: string;
+	tools?: string[];
+	images?: string[];
+	outputSchema?: unknown;
+	env?: Record<string, string>;
+	flags?: string[];
+	runner?: SubagentRunner;
+	sandbox: boolean;
+	budget?: SubagentBudget;
+}
+
+interface CacheEntry {
+	createdAt: string;
+	result: SubagentResult;
+}
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+async function git(
+	cwd: string,
+	args: string[],
+	input?: string,
+): Promise<string> {
+	const child = execFileAsync("git", args, { cwd, maxBuffer: GIT_MAX_BUFFER });
+	if (input !== undefined) child.child.stdin?.end(input);
+	const { stdout } = await child;
+	return stdout;
+}
+
+/**
+ * Fingerprint of the checkout as it is on disk: HEAD, the diff of tracked
+ * files against it and the content of untracked, non-ignored files. Nothing is
+ * written to the repository. Undefined outside a git repository.
+ */
+async function gitTreeHash(cwd: string): Promise<string | undefined> {
+	try {
+		const root = (await git(cwd, ["rev-parse", "--show-toplevel"])).trim();
+		const head = (await git(root, ["rev-parse", "HEAD"])).trim();
+		const diff = await git(root, ["diff", "HEAD", "--binary", "--no-ext-diff"]);
+		const untracked = (
+			await git(root, ["ls-files", "-o", "--exclude-standard", "-z"])
+		)
+			.split("\0")
+			.filter(Boolean);
+		const blobs = untracked.length
+			? await git(
+					root,
+					["hash-object", "--stdin-paths"],
+					`${untracked.join("\n")}\n`,
+				)
+			: "";
+		return createHash("sha256")
+			.update(
+				JSON.stringify([
+					head,
+					path.relative(root, fs.realpathSync(cwd)),
+					untracked,
+					blobs,
+				]),
+			)
+			.update(diff)
+			.digest("hex");
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Returns a tree hasher that fingerprints each cwd once, so the tasks of one
+ * call share the result instead of each scanning the repository.
+ */
+export function createTreeHasher(): (
+	cwd: string,
+) => Promise<string | undefined> {
+	const hashes = new Map<string, Promise<string | undefined>>();
+	return (cwd) => {
+		const key = path.resolve(cwd);
+		let hash = hashes.get(key);
+		if (!hash) {
+			hash = gitTreeHash(key);
+			hashes.set(key, hash);
+		}
+		return hash;
+	};
+}
+
+/** Key of a run against the tree fingerprint from createTreeHasher. */
+export function cacheKey(input: CacheKeyInput, tree: string): string {
+	return createHash("sha256")
+		.update(
+			JSON.stringify([
+				input.agent,
+				input.systemPrompt,
+				input.model,
+				input.thinking ?? null,
+				input.task,
+				input.tools ?? null,
+				input.images ?? [],
+				input.outputSchema ?? null,
+				input.env ?? null,
+				input.flags ?? null,
+				input.runner ?? "spawn",
+				input.sandbox,
+				input.budget ?? null,
+				tree,
+			]),
+		)
+		.digest("hex");
+}
+
+function entryFile(key: string): string {
+	return path.join(SUBAGENT_CACHE_DIR, `${key}.json`);
+}
+
+export function readCachedResult(key: string): SubagentResult | undefined {
+	try {
+		const entry = JSON.parse(
+			fs.readFileSync(entryFile(key), "utf-8"),
+		) as CacheEntry;
+		return entry.result;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Stores a finished result without its session, which may not outlive this
+ * process, so cache hits cannot be resumed.
+ */
+export function writeCachedResult(key: string, result: SubagentResult): void {
+	const entry: CacheEntry = {
+		createdAt: new Date().toISOString(),
+		result: {
+			...result,
+			sessionFile: undefined,
+			runId: undefined,
+			partialText: undefined,
+			runningTools: undefined,
+			lastToolResult: undefined,
+		},
+	};
+	try {
+		fs.mkdirSync(SUBAGENT_CACHE_DIR, { recursive: true });
+		fs.writeFileSync(entryFile(key), JSON.stringify(entry), "utf-8");
+	} catch {}
+}
+
+export function cacheStats(): { entries: number; bytes: number } {
+	let entries = 0;
+	let bytes = 0;
+	try {
+		for (const name of fs.readdirSync(SUBAGENT_CACHE_DIR)) {
+			if (!name.endsWith(".json")) continue;
+			entries++;
+			bytes += fs.statSync(path.join(SUBAGENT_CACHE_DIR, name)).size;
+		}
+	} catch {}
+	return { entries, bytes };
+}
+
+/** Removes every cached result and returns how many there were. */
+export function clearCache(): number {
+	const { entries } = cacheStats();
+	fs.rmSync(SUBAGENT_CACHE_DIR, { recursive: true, force: true });
+	return entries;
+}
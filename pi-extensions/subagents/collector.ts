@@ -0,0 +1,343 @@
+import type { Message } from "@earendil-works/pi-ai";
+import type {
+	RunSubagentOptions,
+	RunSubagentResult,
+	SubagentBudget,
+	SubagentToolCall,
+	SubagentToolResultPreview,
+	UsageStats,
+} from "./runner.js";
+
+interface MessageUsage {
+	input?: number;
+	output?: number;
+	cacheRead?: number;
+	cacheWrite?: number;
+	totalTokens?: number;
+	cost?: { total?: number };
+}
+
+function extractAssistantText(message: Message): string {
+	if (message.role !== "assistant") return "";
+	return message.content
+		.filter(
+			(part): part is { type: "text"; text: string } => part.type === "text",
+		)
+		.map((part) => part.text)
+		.join("\n")
+		.trim();
+}
+
+function extractAssistantToolCalls(message: Message): SubagentToolCall[] {
+	if (message.role !== "assistant") return [];
+	const calls: SubagentToolCall[] = [];
+	for (const part of message.content) {
+		if (part.type !== "toolCall") continue;
+		calls.push({
+			id: part.id,
+			name: part.name,
+			arguments:
+				typeof part.arguments === "object" && part.arguments !== null
+					? (part.arguments as Record<string, unknown>)
+					: {},
+		});
+	}
+	return calls;
+}
+
+const TOOL_RESULT_PREVIEW_CHARS = 200;
+
+/** Streaming events arrive per token; progress callbacks are throttled to this interval. */
+const STREAM_PROGRESS_INTERVAL_MS = 100;
+
+function toolResultPreview(result: unknown): string {
+	const content = (result as { content?: unknown } | undefined)?.content;
+	if (!Array.isArray(content)) return "";
+	const text = content
+		.filter(
+			(part): part is { type: "text"; text: string } =>
+				part?.type === "text" && typeof part.text === "string",
+		)
+		.map((part) => part.text)
+		.join(" ")
+		.replace(/\s+/g, " ")
+		.trim();
+	return text.length > TOOL_RESULT_PREVIEW_CHARS
+		? `${text.slice(0, TOOL_RESULT_PREVIEW_CHARS)}...`
+		: text;
+}
+
+/**
+ * Input tokens include cache reads and writes: that is the prompt size the
+ * provider processed, which is what a token budget is meant to cap.
+ */
+function exceededBudget(
+	usage: UsageStats,
+	budget: SubagentBudget,
+): string | undefined {
+	const input = usage.input + usage.cacheRead + usage.cacheWrite;
+	if (budget.maxCost !== undefined && usage.cost >= budget.maxCost)
+		return `cost $${usage.cost.toFixed(4)} of $${budget.maxCost} spent`;
+	if (budget.maxInputTokens !== undefined && input >= budget.maxInputTokens)
+		return `${input} of ${budget.maxInputTokens} input tokens used`;
+	if (
+		budget.maxOutputTokens !== undefined &&
+		usage.output >= budget.maxOutputTokens
+	)
+		return `${usage.output} of ${budget.maxOutputTokens} output tokens used`;
+	if (budget.maxTurns !== undefined && usage.turns >= budget.maxTurns)
+		return `${usage.turns} of ${budget.maxTurns} turns used`;
+	return undefined;
+}
+
+export interface RunCollector {
+	/** Feeds one agent session event, as emitted in-process or by `pi --mode json`. */
+	handleEvent(event: unknown): void;
+	/** Records an error that did not arrive as an assistant message. */
+	fail(message: string): void;
+	/** True once the run was aborted or stopped by a timeout or budget. */
+	readonly stopped: boolean;
+	readonly aborted: boolean;
+	/** Clears timers and the abort listener. Call once the run has ended. */
+	finish(): void;
+	result(
+		exitCode: number,
+		extra: Pick<
+			RunSubagentResult,
+			"stderr" | "malformedJsonLines" | "spawnError" | "runner"
+		>,
+	): RunSubagentResult;
+}
+
+/**
+ * Turns a child's event stream into a RunSubagentResult and enforces the
+ * run's timeout, stall timeout, budget and abort signal by calling `terminate`.
+ * Shared by the spawn and in-process backends so both report the same way.
+ */
+export function createRunCollector(
+	options: RunSubagentOptions,
+	terminate: () => void,
+): RunCollector {
+	const messages: Message[] = [];
+	const toolCalls: SubagentToolCall[] = [];
+	const seenToolCalls = new Set<string>();
+	let finalText = "";
+	let partialText = "";
+	const runningTools = new Map<string, string>();
+	const toolStartedAt = new Map<string, number>();
+	let lastToolResult: SubagentToolResultPreview | undefined;
+	let stopReason: string | undefined;
+	let errorMessage: string | undefined;
+	let model: string | undefined;
+	let aborted = false;
+	let finished = false;
+	let earlyStop: { reason: string; message: string } | undefined;
+	const usage: UsageStats = {
+		input: 0,
+		output: 0,
+		cacheRead: 0,
+		cacheWrite: 0,
+		cost: 0,
+		contextTokens: 0,
+		turns: 0,
+	};
+
+	let timeout: ReturnType<typeof setTimeout> | undefined;
+	let stallTimer: ReturnType<typeof setTimeout> | undefined;
+
+	const stopEarly = (reason: string, message: string) => {
+		if (earlyStop || aborted) return;
+		earlyStop = { reason, message };
+		terminate();
+	};
+
+	const timeoutMs = options.timeoutMs;
+	if (timeoutMs) {
+		timeout = setTimeout(
+			() =>
+				stopEarly("timeout", `Subagent timed out after ${timeoutMs / 1000}s`),
+			timeoutMs,
+		);
+	}
+
+	const stallTimeoutMs = options.stallTimeoutMs;
+	const resetStallTimer = () => {
+		if (!stallTimeoutMs || finished) return;
+		if (stallTimer) clearTimeout(stallTimer);
+		stallTimer = setTimeout(
+			() =>
+				stopEarly(
+					"timeout",
+					`Subagent stalled: no events for ${stallTimeoutMs / 1000}s`,
+				),
+			stallTimeoutMs,
+		);
+	};
+	resetStallTimer();
+
+	const onAbort = () => {
+		if (aborted) return;
+		aborted = true;
+		terminate();
+	};
+	if (options.signal?.aborted) onAbort();
+	else options.signal?.addEventListener("abort", onAbort, { once: true });
+
+	let lastProgressAt = 0;
+	const emitProgress = () => {
+		lastProgressAt = Date.now();
+		options.onProgress?.({
+			text: finalText,
+			partialText,
+			runningTools: [...runningTools.values()],
+			lastToolResult,
+			toolCalls: [...toolCalls],
+			usage: { ...usage },
+			model,
+			stopReason,
+		});
+	};
+
+	const recordToolResult = (id: string, isError: boolean, preview: string) => {
+		const call = toolCalls.find((candidate) => candidate.id === id);
+		if (!call) return;
+		call.status = isError ? "error" : "ok";
+		call.resultPreview = preview;
+		const startedAt = toolStartedAt.get(id);
+		if (startedAt !== undefined && call.durationMs === undefined)
+			call.durationMs = Date.now() - startedAt;
+	};
+
+	const processStreamEvent = (event: {
+		type?: unknown;
+		assistantMessageEvent?: { type?: unknown; delta?: unknown };
+		toolCallId?: unknown;
+		toolName?: unknown;
+		result?: unknown;
+		isError?: unknown;
+	}) => {
+		if (event.type === "message_update") {
+			const update = event.assistantMessageEvent;
+			if (update?.type !== "text_delta" || typeof update.delta !== "string")
+				return;
+			partialText += update.delta;
+			if (Date.now() - lastProgressAt >= STREAM_PROGRESS_INTERVAL_MS)
+				emitProgress();
+			return;
+		}
+		const id = String(event.toolCallId ?? event.toolName ?? "");
+		const toolName = String(event.toolName ?? "tool");
+		if (event.type === "tool_execution_start") {
+			runningTools.set(id, toolName);
+			toolStartedAt.set(id, Date.now());
+			const call = toolCalls.find((candidate) => candidate.id === id);
+			if (call) call.status = "running";
+			emitProgress();
+		} else if (event.type === "tool_execution_end") {
+			runningTools.delete(id);
+			lastToolResult = {
+				toolName,
+				isError: event.isError === true,
+				preview: toolResultPreview(event.result),
+			};
+			recordToolResult(id, event.isError === true, lastToolResult.preview);
+			emitProgress();
+		}
+	};
+
+	const processMessage = (message: Message) => {
+		messages.push(message);
+		if (message.role === "toolResult") {
+			recordToolResult(
+				message.toolCallId,
+				message.isError,
+				toolResultPreview(message),
+			);
+			emitProgress();
+			return;
+		}
+		if (message.role !== "assistant") return;
+		partialText = "";
+		usage.turns++;
+		const messageUsage = (message as { usage?: MessageUsage }).usage;
+		if (messageUsage) {
+			usage.input += messageUsage.input || 0;
+			usage.output += messageUsage.output || 0;
+			usage.cacheRead += messageUsage.cacheRead || 0;
+			usage.cacheWrite += messageUsage.cacheWrite || 0;
+			usage.cost += messageUsage.cost?.total || 0;
+			usage.contextTokens = messageUsage.totalTokens || usage.contextTokens;
+		}
+
+		const messageToolCalls = extractAssistantToolCalls(message);
+		let changed = false;
+		for (const call of messageToolCalls) {
+			const key = call.id
+				? call.id
+				: `${call.name}:${JSON.stringify(call.arguments)}`;
+			if (seenToolCalls.has(key)) continue;
+			seenToolCalls.add(key);
+			toolCalls.push(call);
+			changed = true;
+		}
+
+		const text = extractAssistantText(message);
+		if (text) {
+			finalText = text;
+			changed = true;
+		}
+		if (message.stopReason) {
+			stopReason = message.stopReason;
+			changed = true;
+		}
+		if (message.errorMessage) errorMessage = message.errorMessage;
+		if (message.model) model = message.model;
+		if (changed) emitProgress();
+		const exceeded =
+			options.budget && message.stopReason === "toolUse"
+				? exceededBudget(usage, options.budget)
+				: undefined;
+		if (exceeded) stopEarly("budget", `Subagent budget exceeded: ${exceeded}`);
+	};
+
+	return {
+		handleEvent(event) {
+			if (!event || typeof event !== "object") return;
+			resetStallTimer();
+			const messageEnd = event as { type?: unknown; message?: unknown };
+			if (messageEnd.type !== "message_end") {
+				processStreamEvent(event);
+				return;
+			}
+			if (messageEnd.message) processMessage(messageEnd.message as Message);
+		},
+		fail(message) {
+			errorMessage = message;
+		},
+		get stopped() {
+			return aborted || earlyStop !== undefined;
+		},
+		get aborted() {
+			return aborted;
+		},
+		finish() {
+			finished = true;
+			if (timeout) clearTimeout(timeout);
+			if (stallTimer) clearTimeout(stallTimer);
+			options.signal?.removeEventListener("abort", onAbort);
+		},
+		result(exitCode, extra) {
+			return {
+				exitCode,
+				...extra,
+				messages,
+				finalText,
+				toolCalls,
+				usage,
+				stopReason: earlyStop?.reason ?? stopReason,
+				errorMessage: earlyStop?.message ?? errorMessage,
+				model,
+			};
+		},
+	};
+}
@@ -0,0 +1,128 @@
+import * as os from "node:os";
+import type { Api, Model } from "@earendil-works/pi-ai";
+import type { AgentConfig, AgentDiscoveryResult } from "./agents.js";
+import { isModelAlias, resolveModelChain, resolvesToModel } from "./models.js";
+import { SUBAGENT_SETTINGS_PATH } from "./settings.js";
+import { untrustedProjectAgents } from "./trust.js";
+
+function shortenPath(inputPath: string): string {
+	const home = os.homedir();
+	if (inputPath.startsWith(home)) return `~${inputPath.slice(home.length)}`;
+	return inputPath;
+}
+
+function agentOrigin(agent: AgentConfig): string {
+	return agent.filePath
+		? `${agent.source} ${shortenPath(agent.filePath)}`
+		: agent.source;
+}
+
+function modelProblems(
+	agent: AgentConfig,
+	models: Model<Api>[],
+	aliases: Record<string, string[]>,
+): string[] {
+	const problems: string[] = [];
+	for (const name of agent.models ?? []) {
+		if (isModelAlias(name, aliases)) {
+			if (resolveModelChain([name], models, aliases).length === 0)
+				problems.push(`alias "${name}" matches no available model`);
+		} else if (!resolvesToModel(name, models)) {
+			problems.push(`model "${name}" is not among the available models`);
+		}
+	}
+	return problems;
+}
+
+/**
+ * Report for /subagents doctor: files that failed to load, agents overridden by
+ * a later source, tools the agents ask for that are not registered, and models
+ * that do not resolve with the current credentials.
+ */
+export function formatDoctorReport(
+	discovery: AgentDiscoveryResult,
+	toolNames: string[],
+	models: Model<Api>[],
+	aliases: Record<string, string[]>,
+): { report: string; problemCount: number } {
+	const sections: string[] = [
+		[
+			"Agent directories:",
+			`  user: ${shortenPath(discovery.userAgentsDir)}`,
+			`  project: ${discovery.projectAgentsDir ? shortenPath(discovery.projectAgentsDir) : "none found"}`,
+			`  settings: ${shortenPath(SUBAGENT_SETTINGS_PATH)}`,
+		].join("\n"),
+	];
+
+	const skipped = discovery.issues.filter((issue) => issue.skipped);
+	if (skipped.length > 0)
+		sections.push(
+			[
+				`Skipped files (${skipped.length}):`,
+				...skipped.map(
+					(issue) =>
+						`  ✗ ${shortenPath(issue.filePath)} (${issue.source}): ${issue.reason}`,
+				),
+			].join("\n"),
+		);
+
+	const warnings = discovery.issues.filter((issue) => !issue.skipped);
+	if (warnings.length > 0)
+		sections.push(
+			[
+				`Warnings (${warnings.length}):`,
+				...warnings.map(
+					(issue) => `  ⚠ ${shortenPath(issue.filePath)}: ${issue.reason}`,
+				),
+			].join("\n"),
+		);
+
+	if (discovery.shadowed.length > 0)
+		sections.push(
+			[
+				`Shadowed agents (${discovery.shadowed.length}):`,
+				...discovery.shadowed.map(
+					(entry) =>
+						`  ${entry.name}: ${agentOrigin(entry.winner)} wins over ${entry.shadowed.map(agentOrigin).join(", ")}`,
+				),
+			].join("\n"),
+		);
+
+	const untrusted = untrustedProjectAgents(
+		discovery.agents,
+		discovery.projectAgentsDir,
+	);
+	if (untrusted.length > 0)
+		sections.push(
+			[
+				"Untrusted project agents (approval is requested on first use):",
+				...untrusted.map((agent) => `  ${agent.name}`),
+			].join("\n"),
+		);
+
+	const knownTools = new Set(toolNames);
+	const toolLines: string[] = [];
+	const modelLines: string[] = [];
+	for (const agent of discovery.agents) {
+		const unknown = (agent.tools ?? []).filter((tool) => !knownTools.has(tool));
+		if (unknown.length > 0)
+			toolLines.push(
+				`  ${agent.name} (${agent.source}): ${unknown.join(", ")}`,
+			);
+		for (const problem of modelProblems(agent, models, aliases))
+			modelLines.push(`  ${agent.name} (${agent.source}): ${problem}`);
+	}
+	if (toolLines.length > 0)
+		sections.push(["Unknown tools:", ...toolLines].join("\n"));
+	if (modelLines.length > 0)
+		sections.push(["Unresolvable models:", ...modelLines].join("\n"));
+
+	const problemCount =
+		skipped.length + warnings.length + toolLines.length + modelLines.length;
+	sections.push(
+		problemCount === 0
+			? `✓ ${discovery.agents.length} agents loaded, no problems found`
+			: `${discovery.agents.length} agents loaded, ${problemCount} problem${problemCount === 1 ? "" : "s"} found`,
+	);
+	return { report: sections.join("\n\n"), problemCount };
+}
@@ -0,0 +1,274 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { SessionEntry } from "@earendil-works/pi-coding-agent";
+
+export interface HandoffContext {
+	/** Number of recent parent user and assistant messages to include. */
+	messages?: number;
+	/** "latest" for the newest compaction or branch summary, or the label of one. */
+	summary?: string;
+}
+
+export interface HandoffRequest {
+	files?: string[];
+	context?: HandoffContext;
+	images?: string[];
+}
+
+/** Attachments read at call time, appended to the task and sent as images. */
+export interface Handoff {
+	text: string;
+	images: string[];
+}
+
+const MAX_FILES = 20;
+const MAX_FILE_BYTES = 100 * 1024;
+const MAX_HANDOFF_BYTES = 256 * 1024;
+export const MAX_CONTEXT_MESSAGES = 20;
+const MAX_CONTEXT_MESSAGE_CHARS = 4000;
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp"]);
+
+function resolvePath(cwd: string, file: string): string {
+	const expanded = file.startsWith("~/")
+		? path.join(os.homedir(), file.slice(2))
+		: file;
+	return path.resolve(cwd, expanded);
+}
+
+/**
+ * Attachments are read by the parent on the host, so while its tools are
+ * sandboxed they must stay inside `root`, the tree the sandbox mounts.
+ * Symlinks are followed before the check.
+ */
+function checkInsideRoot(file: string, root: string | undefined): void {
+	if (!root) return;
+	const real = (target: string) => {
+		try {
+			return fs.realpathSync(target);
+		} catch {
+			return path.resolve(target);
+		}
+	};
+	const relative = path.relative(real(root), real(file));
+	if (
+		relative === ".." ||
+		relative.startsWith(`..${path.sep}`) ||
+		path.isAbsolute(relative)
+	)
+		throw new Error(
+			`Could not attach ${file}: the parent is sandboxed, so attachments must be inside ${root}.`,
+		);
+}
+
+/** Splits `path:start-end` or `path:line`, unless the whole spec names a file. */
+function parseFileSpec(
+	spec: string,
+	cwd: string,
+): { file: string; start?: number; end?: number } {
+	const whole = resolvePath(cwd, spec);
+	const match = spec.match(/^(.+):(\d+)(?:-(\d+))?$/);
+	if (!match || fs.existsSync(whole)) return { file: whole };
+	const start = Number(match[2]);
+	const end = match[3] ? Number(match[3]) : start;
+	if (start < 1 || end < start)
+		throw new Error(`Invalid line range in "${spec}".`);
+	return { file: resolvePath(cwd, match[1]), start, end };
+}
+
+function readFileSection(
+	spec: string,
+	cwd: string,
+	root: string | undefined,
+): string {
+	const { file, start, end } = parseFileSpec(spec, cwd);
+	checkInsideRoot(file, root);
+	let content: string;
+	try {
+		content = fs.readFileSync(file, "utf-8");
+	} catch (error) {
+		throw new Error(
+			`Could not attach ${file}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	let lines = "";
+	if (start !== undefined && end !== undefined) {
+		const all = content.replace(/\n$/, "").split("\n");
+		if (start > all.length)
+			throw new Error(
+				`Could not attach ${file}: it has ${all.length} lines, range starts at ${start}.`,
+			);
+		content = all.slice(start - 1, end).join("\n");
+		lines = ` lines="${start}-${Math.min(end, all.length)}"`;
+	}
+	const bytes = Buffer.byteLength(content, "utf-8");
+	if (bytes > MAX_FILE_BYTES) {
+		content = `${Buffer.from(content, "utf-8").subarray(0, MAX_FILE_BYTES).toString("utf-8")}\n[Truncated: ${bytes - MAX_FILE_BYTES} more bytes. Attach a line range to see the rest.]`;
+	}
+	return `<file name="${file}"${lines}>\n${content}\n</file>`;
+}
+
+function messageText(entry: SessionEntry): string | undefined {
+	if (entry.type !== "message") return undefined;
+	const message = entry.message;
+	if (message.role !== "user" && message.role !== "assistant") return undefined;
+	const content =
+		typeof message.content === "string"
+			? message.content
+			: message.content
+					.filter(
+						(part): part is { type: "text"; text: string } =>
+							part.type === "text",
+					)
+					.map((part) => part.text)
+					.join("\n");
+	const text = content.trim();
+	if (!text) return undefined;
+	const clipped =
+		text.length > MAX_CONTEXT_MESSAGE_CHARS
+			? `${text.slice(0, MAX_CONTEXT_MESSAGE_CHARS)}...`
+			: text;
+	return `**${message.role === "user" ? "User" : "Assistant"}:** ${clipped}`;
+}
+
+function findSummary(
+	branch: SessionEntry[],
+	name: string,
+	labelOf: (id: string) => string | undefined,
+): string {
+	const summaries = branch.filter(
+		(entry) => entry.type === "compaction" || entry.type === "branch_summary",
+	);
+	const entry =
+		name === "latest"
+			? summaries[summaries.length - 1]
+			: summaries.find((candidate) => labelOf(candidate.id) === name);
+	if (!entry || !("summary" in entry))
+		throw new Error(
+			name === "latest"
+				? "The parent session has no summary yet."
+				: `No parent session summary labelled "${name}".`,
+		);
+	return entry.summary;
+}
+
+function parentContext(
+	context: HandoffContext,
+	branch: SessionEntry[],
+	labelOf: (id: string) => string | undefined,
+): string {
+	const sections: string[] = [];
+	if (context.summary)
+		sections.push(
+			`### Summary\n\n${findSummary(branch, context.summary, labelOf)}`,
+		);
+	const count = Math.min(context.messages ?? 0, MAX_CONTEXT_MESSAGES);
+	if (count > 0) {
+		const messages = branch
+			.map(messageText)
+			.filter((text): text is string => text !== undefined)
+			.slice(-count);
+		if (messages.length > 0)
+			sections.push(`### Recent messages\n\n${messages.join("\n\n")}`);
+	}
+	return sections.join("\n\n");
+}
+
+function imagePath(
+	spec: string,
+	cwd: string,
+	root: string | undefined,
+): string {
+	const file = resolvePath(cwd, spec);
+	checkInsideRoot(file, root);
+	if (!IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase()))
+		throw new Error(
+			`Unsupported image ${file}. Use ${[...IMAGE_EXTENSIONS].join(", ")}.`,
+		);
+	let size: number;
+	try {
+		size = fs.statSync(file).size;
+	} catch (error) {
+		throw new Error(
+			`Could not attach ${file}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	if (size > MAX_IMAGE_BYTES)
+		throw new Error(
+			`Image ${file} is ${Math.round(size / 1024)} KB, over the ${MAX_IMAGE_BYTES / 1024 / 1024} MB limit.`,
+		);
+	return file;
+}
+
+/**
+ * Reads attached files, parent conversation excerpts and image paths when the
+ * call is made, so background jobs see the state the parent asked about.
+ * Throws with a message meant for the parent model when a limit is exceeded
+ * or, with `root` set, a path lies outside it.
+ */
+export function materializeHandoff(
+	request: HandoffRequest,
+	cwd: string,
+	branch: SessionEntry[],
+	labelOf: (id: string) => string | undefined,
+	root?: string,
+): Handoff | undefined {
+	const files = request.files ?? [];
+	const images = request.images ?? [];
+	if (files.length === 0 && images.length === 0 && !request.context)
+		return undefined;
+	if (files.length > MAX_FILES)
+		throw new Error(
+			`Too many attached files (${files.length}). Max is ${MAX_FILES}.`,
+		);
+	if (images.length > MAX_IMAGES)
+		throw new Error(
+			`Too many attached images (${images.length}). Max is ${MAX_IMAGES}.`,
+		);
+	const sections: string[] = [];
+	if (files.length > 0)
+		sections.push(
+			`## Attached files\n\n${files.map((file) => readFileSection(file, cwd, root)).join("\n\n")}`,
+		);
+	const context = request.context
+		? parentContext(request.context, branch, labelOf)
+		: "";
+	if (context) sections.push(`## Parent conversation\n\n${context}`);
+	const text = sections.join("\n\n");
+	const bytes = Buffer.byteLength(text, "utf-8");
+	if (bytes > MAX_HANDOFF_BYTES)
+		throw new Error(
+			`Attachments total ${Math.round(bytes / 1024)} KB, over the ${MAX_HANDOFF_BYTES / 1024} KB limit. Attach line ranges or fewer messages.`,
+		);
+	return { text, images: images.map((image) => imagePath(image, cwd, root)) };
+}
+
+export function withHandoff(
+	task: string,
+	handoff: Handoff | undefined,
+): string {
+	return handoff?.text ? `${task}\n\n${handoff.text}` : task;
+}
+
+/** One-line description of a call's attachments for renderCall. */
+export function handoffSummary(request: HandoffRequest): string | undefined {
+	const parts: string[] = [];
+	const files = request.files ?? [];
+	if (files.length > 0)
+		parts.push(
+			files.length <= 2
+				? files.join(", ")
+				: `${files.length} files (${files.slice(0, 2).join(", ")}, ...)`,
+		);
+	const images = request.images?.length ?? 0;
+	if (images > 0) parts.push(`${images} image${images === 1 ? "" : "s"}`);
+	const context = request.context;
+	if (context?.messages)
+		parts.push(
+			`last ${context.messages} message${context.messages === 1 ? "" : "s"}`,
+		);
+	if (context?.summary) parts.push(`summary: ${context.summary}`);
+	return parts.length > 0 ? parts.join(" · ") : undefined;
+}
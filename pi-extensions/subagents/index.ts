@@ -1,17 +1,160 @@
-import type { Api, Model } from "@earendil-works/pi-ai";
-import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import * as fs from "node:fs";
+import { StringEnum } from "@earendil-works/pi-ai";
+import type {
+	ExtensionAPI,
+	ExtensionContext,
+} from "@earendil-works/pi-coding-agent";
 import { Text } from "@earendil-works/pi-tui";
-import { Type } from "typebox";
-import { type AgentConfig, discoverAgents, formatAgentList } from "./agents.js";
+import { type Static, Type } from "typebox";
 import {
+	type AgentConfig,
+	discoverAgents,
+	formatAgentList,
+	ISOLATION_MODES,
+	type IsolationMode,
+	parseDuration,
+} from "./agents.js";
+import {
+	cacheKey,
+	cacheStats,
+	clearCache,
+	createTreeHasher,
+	readCachedResult,
+	SUBAGENT_CACHE_DIR,
+	writeCachedResult,
+} from "./cache.js";
+import { formatDoctorReport } from "./doctor.js";
+import {
+	type Handoff,
+	type HandoffRequest,
+	handoffSummary,
+	MAX_CONTEXT_MESSAGES,
+	materializeHandoff,
+	withHandoff,
+} from "./handoff.js";
+import {
+	formatJobLine,
+	type SubagentJob,
+	SubagentJobRegistry,
+	SubagentJobsComponent,
+} from "./jobs.js";
+import {
+	limitsForCall,
+	ModelConcurrencyLimiter,
+	parseByteSize,
+	positiveInteger,
+	resolveLimits,
+	type SubagentLimits,
+} from "./limits.js";
+import { openAgentManager } from "./manager.js";
+import { resolveModelChain } from "./models.js";
+import {
+	type AgentSource,
+	type ChainStep,
+	emptyUsage,
+	formatTokens,
+	formatUsage,
+	isFailed,
+	isFailedStop,
+	LIMIT_STOP_REASONS,
+	resultOutput,
+	resultText,
+	type SubagentDetails,
+	type SubagentMode,
+	type SubagentResult,
+	type SubagentToolResult,
+	statusLabel,
+	sumUsage,
+} from "./results.js";
+import {
+	classifyFailure,
+	DEFAULT_RETRY_POLICY,
+	RETRYABLE_FAILURES,
+	type RetryableFailure,
+	type RetryPolicy,
+	retryDelay,
+	sleep,
+} from "./retry.js";
+import {
+	type RunSubagentOptions,
 	runSubagent,
+	type SubagentBudget,
 	type SubagentToolCall,
-	type UsageStats,
 } from "./runner.js";
+import {
+	type ChildSessionTarget,
+	childSessionTarget,
+	collectChildSessions,
+	createChildSessionFile,
+	findSubagentRun,
+	readSessionCwd,
+	removeScratchSessions,
+	runIdFromSessionFile,
+	scratchSessionTarget,
+} from "./sessions.js";
+import { loadSubagentSettings } from "./settings.js";
+import {
+	type OutputSchema,
+	runStructuredSubagent,
+	type StructuredRunResult,
+} from "./structured.js";
+import { ensureProjectAgentsTrusted } from "./trust.js";
+import {
+	collectUsageRecords,
+	formatUsageReport,
+	JOB_USAGE_ENTRY,
+	totalUsage,
+	type UsageRecord,
+} from "./usage.js";
+import {
+	collectWorktreeChanges,
+	createWorktree,
+	removeWorktree,
+	type SubagentWorktree,
+} from "./worktree.js";
+
+const MAX_CHAIN_STEPS = 8;
+/** Lines of streamed output shown while a collapsed subagent result is still running. */
+const LIVE_TAIL_LINES = 8;
+
+const IsolationParam = StringEnum(ISOLATION_MODES, {
+	description:
+		"worktree runs the subagent in a temporary git worktree of HEAD and returns its changes as a patch instead of touching cwd. Overrides the agent's isolation",
+});
+
+const OutputSchemaParam = Type.Record(Type.String(), Type.Unknown(), {
+	description:
+		"JSON schema the subagent's final message must match. The parsed value is returned as structuredOutput. Overrides the agent's outputSchema",
+});
 
-const MAX_PARALLEL_TASKS = 8;
-const MAX_CONCURRENCY = 4;
-const PER_TASK_OUTPUT_CAP = 50 * 1024;
+const FilesParam = Type.Array(Type.String(), {
+	description:
+		"Files to attach to the task as path, path:line or path:start-end, relative to the task's cwd. Up to 20 files of 100 KB each",
+});
+
+const ContextParam = Type.Object(
+	{
+		messages: Type.Optional(
+			Type.Integer({
+				minimum: 1,
+				maximum: MAX_CONTEXT_MESSAGES,
+				description: "Number of recent user and assistant messages to include",
+			}),
+		),
+		summary: Type.Optional(
+			Type.String({
+				description:
+					'"latest" for the newest compaction or branch summary, or the label of one',
+			}),
+		),
+	},
+	{ description: "Parts of this conversation to hand to the subagent" },
+);
+
+const ImagesParam = Type.Array(Type.String(), {
+	description:
+		"Image files (png, jpg, gif, webp) to send with the task. Up to 4 of 5 MB each",
+});
 
 const TaskItem = Type.Object({
 	agent: Type.String({ description: "Name of the subagent to invoke" }),
@@ -19,8 +162,120 @@ const TaskItem = Type.Object({
 	cwd: Type.Optional(
 		Type.String({ description: "Working directory for this subagent process" }),
 	),
+	isolation: Type.Optional(IsolationParam),
+	outputSchema: Type.Optional(OutputSchemaParam),
+	files: Type.Optional(FilesParam),
+	context: Type.Optional(ContextParam),
+	images: Type.Optional(ImagesParam),
+	id: Type.Optional(
+		Type.String({
+			description:
+				"Task id referenced by dependsOn. Defaults to the 1-based task position",
+		}),
+	),
+	dependsOn: Type.Optional(
+		Type.Array(Type.String(), {
+			description:
+				"Ids of tasks that must complete first. Their outputs are appended to this task",
+		}),
+	),
+});
+
+const ChainItem = Type.Object({
+	agent: Type.String({ description: "Name of the subagent to invoke" }),
+	task: Type.String({
+		description:
+			"Task for this step. {previous} is replaced with the previous step's output",
+	}),
+	cwd: Type.Optional(
+		Type.String({ description: "Working directory for this subagent process" }),
+	),
+	isolation: Type.Optional(IsolationParam),
+	outputSchema: Type.Optional(OutputSchemaParam),
+	files: Type.Optional(FilesParam),
+	context: Type.Optional(ContextParam),
+	images: Type.Optional(ImagesParam),
 });
 
+const SYNTHESIZER_AGENT = "synthesizer";
+
+const SYNTHESIS_TASK =
+	"Merge these parallel subagent results into one concise answer for the parent agent.";
+
+const SynthesizeParam = Type.Object(
+	{
+		agent: Type.Optional(
+			Type.String({
+				description: `Aggregator agent (default ${SYNTHESIZER_AGENT})`,
+			}),
+		),
+		task: Type.Optional(
+			Type.String({
+				description:
+					"Instructions for merging, e.g. what to focus on or how to structure the answer",
+			}),
+		),
+		outputSchema: Type.Optional(OutputSchemaParam),
+	},
+	{
+		description:
+			"Run an aggregator agent over the parallel results and return only its merged answer. Per-task outputs stay in the tool details",
+	},
+);
+
+const BudgetParams = Type.Object(
+	{
+		maxCost: Type.Optional(
+			Type.Number({ minimum: 0, description: "Maximum spend in dollars" }),
+		),
+		maxInputTokens: Type.Optional(
+			Type.Integer({
+				minimum: 1,
+				description: "Maximum prompt tokens including cache reads and writes",
+			}),
+		),
+		maxOutputTokens: Type.Optional(
+			Type.Integer({ minimum: 1, description: "Maximum output tokens" }),
+		),
+		maxTurns: Type.Optional(
+			Type.Integer({ minimum: 1, description: "Maximum assistant turns" }),
+		),
+	},
+	{
+		description:
+			"Hard usage limits for each subagent run. The tighter of this and the agent's own budget applies",
+	},
+);
+
+const RetryParams = Type.Object(
+	{
+		maxAttempts: Type.Optional(
+			Type.Integer({
+				minimum: 1,
+				maximum: 5,
+				description: "Total attempts per task including the first",
+			}),
+		),
+		backoffMs: Type.Optional(
+			Type.Integer({
+				minimum: 0,
+				description:
+					"Delay before the first retry in milliseconds, doubled after each retry (default 1000)",
+			}),
+		),
+		on: Type.Optional(
+			Type.Array(StringEnum(RETRYABLE_FAILURES), {
+				description:
+					"Failure classes to retry: spawn (pi failed to start), provider (model API error), malformed (flood of invalid JSON output). Defaults to all",
+			}),
+		),
+	},
+	{
+		description:
+			"Retry failed subagent runs. Aborts, timeouts and budget stops are never retried",
+	},
+);
+
 const ToolParams = Type.Object({
 	agent: Type.Optional(
 		Type.String({
@@ -34,99 +289,135 @@ const ToolParams = Type.Object({
 	cwd: Type.Optional(
 		Type.String({ description: "Working directory for the subagent process" }),
 	),
+	resume: Type.Optional(
+		Type.String({
+			description:
+				"Run id of an earlier subagent run to continue with task as a follow-up. The run keeps its agent, model, working directory and conversation. Unpersisted runs can be resumed until the parent session ends",
+		}),
+	),
+	isolation: Type.Optional(IsolationParam),
+	outputSchema: Type.Optional(OutputSchemaParam),
+	files: Type.Optional(FilesParam),
+	context: Type.Optional(ContextParam),
+	images: Type.Optional(ImagesParam),
 	tasks: Type.Optional(
 		Type.Array(TaskItem, {
-			description: "Parallel tasks to run as {agent, task, cwd?} items",
+			description:
+				"Parallel tasks to run as {agent, task, cwd?, isolation?, outputSchema?, files?, context?, images?, id?, dependsOn?} items",
+		}),
+	),
+	chain: Type.Optional(
+		Type.Array(ChainItem, {
+			description:
+				"Sequential steps to run as {agent, task, cwd?, isolation?, outputSchema?, files?, context?, images?} items, stopping at the first failure",
+		}),
+	),
+	synthesize: Type.Optional(SynthesizeParam),
+	persist: Type.Optional(
+		Type.Boolean({
+			description:
+				"Save each subagent transcript as a child session the user can open with /subagent-open. Defaults to the --subagent-sessions flag",
+		}),
+	),
+	cache: Type.Optional(
+		Type.Boolean({
+			description:
+				"Return the stored result of an identical earlier run (same agent and its settings, model, task, tools and working tree) instead of running again, and store successful results. Runs on pi's default model are not cached. Defaults to the --subagent-cache flag",
+		}),
+	),
+	budget: Type.Optional(BudgetParams),
+	retry: Type.Optional(RetryParams),
+	concurrency: Type.Optional(
+		Type.Integer({
+			minimum: 1,
+			description:
+				"Most parallel tasks to run at once. Capped by the configured limit (default 4)",
+		}),
+	),
+	outputCap: Type.Optional(
+		Type.Integer({
+			minimum: 1,
+			description:
+				"Bytes of each parallel task's output to return. Capped by the configured limit (default 51200)",
+		}),
+	),
+	timeout: Type.Optional(
+		Type.Number({
+			minimum: 1,
+			description:
+				"Wall-clock limit in seconds for each subagent run. Overrides the agent's timeout",
+		}),
+	),
+	stallTimeout: Type.Optional(
+		Type.Number({
+			minimum: 1,
+			description:
+				"Stop a subagent that emits no events for this many seconds. Overrides the agent's stallTimeout",
+		}),
+	),
+	async: Type.Optional(
+		Type.Boolean({
+			description:
+				"Run in the background and return a job id immediately. Use subagent_status, subagent_result and subagent_cancel to follow up.",
 		}),
 	),
 });
 
-type AgentSource = AgentConfig["source"] | "adhoc" | "unknown";
+type SubagentParams = Static<typeof ToolParams>;
+
+const JobIdParams = Type.Object({
+	id: Type.String({ description: "Background job id, e.g. job-1" }),
+});
 
-type SubagentMode = "single" | "parallel";
+const JobStatusParams = Type.Object({
+	id: Type.Optional(
+		Type.String({ description: "Background job id. Omit to list all jobs" }),
+	),
+});
 
-interface SubagentResult {
-	agent: string;
-	agentSource?: AgentSource;
-	task: string;
-	model?: string;
-	exitCode: number;
-	stopReason?: string;
-	stderr?: string;
-	finalText: string;
-	toolCalls: SubagentToolCall[];
-	usage?: UsageStats;
-	malformedJsonLines?: number;
-	running?: boolean;
-	availableAgents?: string;
-}
+const JobResultParams = Type.Object({
+	id: Type.String({ description: "Background job id, e.g. job-1" }),
+	wait: Type.Optional(
+		Type.Boolean({
+			description: "Wait for the job to finish instead of returning status",
+		}),
+	),
+});
 
-interface SubagentDetails {
-	mode: SubagentMode;
-	results: SubagentResult[];
+interface ExecuteOptions {
+	childSessions?: ChildSessionTarget;
+	budget?: SubagentBudget;
+	timeoutMs?: number;
+	stallTimeoutMs?: number;
+	defaultTimeoutMs?: number;
+	defaultStallTimeoutMs?: number;
+	retry?: Partial<RetryPolicy>;
+	limits: SubagentLimits;
+	modelLimiter?: ModelConcurrencyLimiter;
+	/** Whether the parent's tools run in the Gondolin sandbox; agents inherit it by default. */
+	sandbox?: boolean;
+	/** Set when caching is on; fingerprints each cwd once per call. */
+	treeHash?: (cwd: string) => Promise<string | undefined>;
+	/** Child session files a running subagent appends to, so no resume can share one. */
+	activeSessions?: Set<string>;
 }
 
 interface ResolvedTask {
+	id?: string;
+	dependsOn?: string[];
 	agent: AgentConfig | undefined;
 	agentName: string;
 	agentSource: AgentSource;
 	task: string;
 	cwd?: string;
+	isolation?: IsolationMode;
+	outputSchema?: OutputSchema;
+	/** Attachments appended to the task when the child starts. */
+	handoff?: Handoff;
+	/** Existing child session to continue instead of starting a new one. */
+	sessionFile?: string;
 	model?: string;
-}
-
-function emptyUsage(): UsageStats {
-	return {
-		input: 0,
-		output: 0,
-		cacheRead: 0,
-		cacheWrite: 0,
-		cost: 0,
-		contextTokens: 0,
-		turns: 0,
-	};
-}
-
-function pickModel(
-	models: Model<Api>[],
-	exact: string[],
-	includes: string[],
-): Model<Api> | undefined {
-	const byId = new Map(models.map((model) => [model.id.toLowerCase(), model]));
-	for (const id of exact) {
-		const match = byId.get(id.toLowerCase());
-		if (match) return match;
-	}
-	for (const pattern of includes) {
-		const lowerPattern = pattern.toLowerCase();
-		const match = models.find(
-			(model) =>
-				model.id.toLowerCase().includes(lowerPattern) ||
-				model.name.toLowerCase().includes(lowerPattern) ||
-				`${model.provider}/${model.id}`.toLowerCase().includes(lowerPattern),
-		);
-		if (match) return match;
-	}
-	return undefined;
-}
-
-function resolveModel(
-	model: string | undefined,
-	models: Model<Api>[],
-): string | undefined {
-	if (!model || model !== "auto-fast") return model;
-	const selected = pickModel(
-		models,
-		[
-			"gemini-3-flash-preview",
-			"claude-haiku-4-5",
-			"claude-haiku-4.5",
-			"gemini-2.5-flash",
-			"gpt-5.4-mini",
-		],
-		["haiku", "flash", "mini", "fast"],
-	);
-	return selected ? `${selected.provider}/${selected.id}` : undefined;
+	fallbackModels?: string[];
 }
 
 function getText(result: {
@@ -148,30 +439,44 @@ function formatToolCall(toolCall: SubagentToolCall): string {
 	return `${toolCall.name} ${preview}`;
 }
 
-function formatTokens(count: number): string {
-	if (count < 1000) return count.toString();
-	if (count < 10000) return `${(count / 1000).toFixed(1)}k`;
-	if (count < 1000000) return `${Math.round(count / 1000)}k`;
-	return `${(count / 1000000).toFixed(1)}M`;
+function formatDuration(ms: number): string {
+	return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
 }
 
-function formatUsage(
-	usage: UsageStats | undefined,
-	model: string | undefined,
-): string {
-	if (!usage) return model ?? "";
-	const parts: string[] = [];
-	if (usage.turns)
-		parts.push(`${usage.turns} turn${usage.turns === 1 ? "" : "s"}`);
-	if (usage.input) parts.push(`↑${formatTokens(usage.input)}`);
-	if (usage.output) parts.push(`↓${formatTokens(usage.output)}`);
-	if (usage.cacheRead) parts.push(`R${formatTokens(usage.cacheRead)}`);
-	if (usage.cacheWrite) parts.push(`W${formatTokens(usage.cacheWrite)}`);
-	if (usage.cost) parts.push(`$${usage.cost.toFixed(4)}`);
-	if (usage.contextTokens)
-		parts.push(`ctx:${formatTokens(usage.contextTokens)}`);
-	if (model) parts.push(model);
-	return parts.join(" ");
+function formatBudget(budget: SubagentBudget): string {
+	return [
+		budget.maxCost !== undefined ? `$${budget.maxCost}` : undefined,
+		budget.maxInputTokens !== undefined
+			? `↑${formatTokens(budget.maxInputTokens)}`
+			: undefined,
+		budget.maxOutputTokens !== undefined
+			? `↓${formatTokens(budget.maxOutputTokens)}`
+			: undefined,
+		budget.maxTurns !== undefined ? `${budget.maxTurns} turns` : undefined,
+	]
+		.filter(Boolean)
+		.join(" ");
+}
+
+/** Combines budgets field by field, keeping the tighter limit of each. */
+function mergeBudgets(
+	...budgets: Array<SubagentBudget | undefined>
+): SubagentBudget | undefined {
+	const merged: SubagentBudget = {};
+	for (const budget of budgets) {
+		if (!budget) continue;
+		for (const key of [
+			"maxCost",
+			"maxInputTokens",
+			"maxOutputTokens",
+			"maxTurns",
+		] as const) {
+			const value = budget[key];
+			if (value === undefined) continue;
+			merged[key] = Math.min(merged[key] ?? value, value);
+		}
+	}
+	return Object.keys(merged).length > 0 ? merged : undefined;
 }
 
 function formatDetailedAgentList(agents: AgentConfig[]): string {
@@ -179,10 +484,25 @@ function formatDetailedAgentList(agents: AgentConfig[]): string {
 		.map((agent) => {
 			const details = [
 				`source: ${agent.source}`,
-				agent.model ? `model: ${agent.model}` : undefined,
+				agent.models ? `model: ${agent.models.join(" → ")}` : undefined,
 				agent.tools?.length
 					? `tools: ${agent.tools.join(", ")}`
 					: "tools: default",
+				agent.thinking ? `thinking: ${agent.thinking}` : undefined,
+				agent.budget ? `budget: ${formatBudget(agent.budget)}` : undefined,
+				agent.timeoutMs ? `timeout: ${agent.timeoutMs / 1000}s` : undefined,
+				agent.stallTimeoutMs
+					? `stall timeout: ${agent.stallTimeoutMs / 1000}s`
+					: undefined,
+				agent.cwd ? `cwd: ${agent.cwd}` : undefined,
+				agent.isolation ? `isolation: ${agent.isolation}` : undefined,
+				agent.sandbox !== undefined
+					? `sandbox: ${agent.sandbox ? "on" : "off"}`
+					: undefined,
+				agent.runner ? `runner: ${agent.runner}` : undefined,
+				agent.outputSchema ? "output: structured JSON" : undefined,
+				agent.env ? `env: ${Object.keys(agent.env).join(", ")}` : undefined,
+				agent.flags ? `flags: ${agent.flags.join(" ")}` : undefined,
 			]
 				.filter(Boolean)
 				.join(", ");
@@ -191,30 +511,11 @@ function formatDetailedAgentList(agents: AgentConfig[]): string {
 		.join("\n\n");
 }
 
-function isFailed(result: SubagentResult): boolean {
-	return (
-		result.exitCode !== -1 &&
-		(result.exitCode !== 0 ||
-			result.stopReason === "error" ||
-			result.stopReason === "aborted")
-	);
-}
-
-function statusLabel(result: SubagentResult): string {
-	if (result.exitCode === -1 || result.running) return "running";
-	if (!isFailed(result)) return "completed";
-	return `failed${result.stopReason && result.stopReason !== "end" ? ` (${result.stopReason})` : ""}`;
-}
-
-function resultOutput(result: SubagentResult): string {
-	return result.finalText || result.stderr || "(no output)";
-}
-
-function truncateOutput(output: string): string {
+function truncateOutput(output: string, cap: number): string {
 	const byteLength = Buffer.byteLength(output, "utf8");
-	if (byteLength <= PER_TASK_OUTPUT_CAP) return output;
-	let truncated = output.slice(0, PER_TASK_OUTPUT_CAP);
-	while (Buffer.byteLength(truncated, "utf8") > PER_TASK_OUTPUT_CAP) {
+	if (byteLength <= cap) return output;
+	let truncated = output.slice(0, cap);
+	while (Buffer.byteLength(truncated, "utf8") > cap) {
 		truncated = truncated.slice(0, -1);
 	}
 	return `${truncated}\n\n[Output truncated: ${byteLength - Buffer.byteLength(truncated, "utf8")} bytes omitted. Full output preserved in tool details.]`;
@@ -241,15 +542,153 @@ async function mapWithConcurrencyLimit<TIn, TOut>(
 	return results;
 }
 
-function aggregateStatus(results: SubagentResult[]): string {
-	const running = results.filter((result) => result.exitCode === -1).length;
-	const done = results.length - running;
+function findCycle(tasks: ResolvedTask[]): string[] | undefined {
+	const byId = new Map(tasks.map((task) => [task.id, task]));
+	const state = new Map<string, "visiting" | "done">();
+	const stack: string[] = [];
+	const visit = (id: string): string[] | undefined => {
+		if (state.get(id) === "done") return undefined;
+		if (state.get(id) === "visiting")
+			return [...stack.slice(stack.indexOf(id)), id];
+		state.set(id, "visiting");
+		stack.push(id);
+		for (const dependency of byId.get(id)?.dependsOn ?? []) {
+			const cycle = visit(dependency);
+			if (cycle) return cycle;
+		}
+		stack.pop();
+		state.set(id, "done");
+		return undefined;
+	};
+	for (const task of tasks) {
+		const cycle = task.id ? visit(task.id) : undefined;
+		if (cycle) return cycle;
+	}
+	return undefined;
+}
+
+function validateGraph(tasks: ResolvedTask[]): SubagentResult[] {
+	const errors: SubagentResult[] = [];
+	const fail = (task: ResolvedTask, finalText: string) => {
+		errors.push({
+			id: task.id,
+			dependsOn: task.dependsOn,
+			agent: task.agentName,
+			agentSource: task.agentSource,
+			task: task.task,
+			exitCode: 1,
+			finalText,
+			toolCalls: [],
+		});
+	};
+	const ids = new Set<string>();
+	for (const task of tasks) {
+		if (task.id && ids.has(task.id))
+			fail(task, `Duplicate task id: ${task.id}`);
+		if (task.id) ids.add(task.id);
+	}
+	for (const task of tasks) {
+		for (const dependency of task.dependsOn ?? []) {
+			if (dependency === task.id)
+				fail(task, `Task ${task.id} depends on itself.`);
+			else if (!ids.has(dependency))
+				fail(task, `Task ${task.id} depends on unknown task: ${dependency}`);
+		}
+	}
+	if (errors.length > 0) return errors;
+	const cycle = findCycle(tasks);
+	if (cycle) {
+		const task = tasks.find((candidate) => candidate.id === cycle[0]);
+		if (task) fail(task, `Dependency cycle: ${cycle.join(" -> ")}`);
+	}
+	return errors;
+}
+
+function withUpstreamOutputs(
+	task: string,
+	upstream: SubagentResult[],
+	outputCap: number,
+): string {
+	if (upstream.length === 0) return task;
+	const sections = upstream.map(
+		(result) =>
+			`### ${result.id} (${result.agent})\n\n${truncateOutput(resultOutput(result), outputCap)}`,
+	);
+	return `${task}\n\n## Upstream task outputs\n\n${sections.join("\n\n")}`;
+}
+
+function makeSkipped(
+	task: ResolvedTask,
+	failedDependency: SubagentResult,
+): SubagentResult {
+	return {
+		...makePlaceholder(task),
+		exitCode: 1,
+		stopReason: "skipped",
+		finalText: `Skipped: dependency ${failedDependency.id} (${failedDependency.agent}) ${statusLabel(failedDependency)}.`,
+		running: false,
+		pending: false,
+	};
+}
+
+async function runTaskGraph(
+	tasks: ResolvedTask[],
+	concurrency: number,
+	signal: AbortSignal | undefined,
+	run: (
+		task: ResolvedTask,
+		index: number,
+		upstream: SubagentResult[],
+	) => Promise<SubagentResult>,
+	onSkip: (result: SubagentResult, index: number) => void,
+): Promise<SubagentResult[]> {
+	const limit = Math.max(1, Math.min(concurrency, tasks.length));
+	const indexById = new Map(tasks.map((task, index) => [task.id, index]));
+	const results: Array<SubagentResult | undefined> = tasks.map(() => undefined);
+	const running = new Map<number, Promise<void>>();
+	while (results.some((result) => result === undefined)) {
+		if (signal?.aborted) throw new Error("Subagent aborted");
+		for (const [index, task] of tasks.entries()) {
+			if (results[index] || running.has(index)) continue;
+			const upstream = (task.dependsOn ?? []).map(
+				(id) => results[indexById.get(id) ?? -1],
+			);
+			const failedDependency = upstream.find(
+				(result) => result !== undefined && isFailed(result),
+			);
+			if (failedDependency) {
+				results[index] = makeSkipped(task, failedDependency);
+				onSkip(results[index], index);
+				continue;
+			}
+			if (running.size >= limit || upstream.includes(undefined)) continue;
+			running.set(
+				index,
+				run(task, index, upstream as SubagentResult[]).then((result) => {
+					results[index] = result;
+					running.delete(index);
+				}),
+			);
+		}
+		if (running.size > 0) await Promise.race(running.values());
+	}
+	return results as SubagentResult[];
+}
+
+function aggregateStatus(results: SubagentResult[], label: string): string {
+	const pending = results.filter((result) => result.pending).length;
+	const running = results.filter(
+		(result) => result.exitCode === -1 && !result.pending,
+	).length;
+	const done = results.length - running - pending;
 	const failed = results.filter(isFailed).length;
-	return `Parallel: ${done}/${results.length} done, ${failed} failed, ${running} running`;
+	return `${label}: ${done}/${results.length} done, ${failed} failed, ${running} running${pending ? `, ${pending} pending` : ""}`;
 }
 
 function makePlaceholder(task: ResolvedTask): SubagentResult {
 	return {
+		id: task.id,
+		dependsOn: task.dependsOn,
 		agent: task.agentName,
 		agentSource: task.agentSource,
 		task: task.task,
@@ -262,20 +701,58 @@ function makePlaceholder(task: ResolvedTask): SubagentResult {
 	};
 }
 
-async function runResolvedTask(
+type AttemptOutcome = { result: SubagentResult; failure?: RetryableFailure };
+
+async function spawnAttempt(
 	resolved: ResolvedTask,
-	defaultCwd: string,
+	cwd: string,
 	signal: AbortSignal | undefined,
 	onProgress: ((result: SubagentResult) => void) | undefined,
-): Promise<SubagentResult> {
-	const base = makePlaceholder(resolved);
+	options: ExecuteOptions,
+): Promise<AttemptOutcome> {
+	let sessionFile = resolved.sessionFile;
+	if (!sessionFile && options.childSessions) {
+		try {
+			sessionFile = createChildSessionFile(options.childSessions, cwd);
+			options.activeSessions?.add(sessionFile);
+		} catch {}
+	}
+	const ownedSession = resolved.sessionFile ? undefined : sessionFile;
+	const sandbox = resolved.agent?.sandbox ?? Boolean(options.sandbox);
+	const base = {
+		...makePlaceholder(resolved),
+		sessionFile,
+		runId: sessionFile ? runIdFromSessionFile(sessionFile) : undefined,
+		sandboxed: sandbox ? true : options.sandbox ? false : undefined,
+	};
+	const release = await options.modelLimiter?.acquire(
+		resolved.model,
+		options.limits.modelConcurrency,
+		signal,
+	);
 	try {
-		const run = await runSubagent({
-			cwd: resolved.cwd ?? defaultCwd,
-			task: resolved.task,
+		const runOptions: RunSubagentOptions = {
+			cwd,
+			task: withHandoff(resolved.task, resolved.handoff),
+			images: resolved.handoff?.images,
 			systemPrompt: resolved.agent?.systemPrompt ?? "",
 			model: resolved.model,
 			tools: resolved.agent?.tools,
+			thinking: resolved.agent?.thinking,
+			budget: mergeBudgets(resolved.agent?.budget, options.budget),
+			timeoutMs:
+				options.timeoutMs ??
+				resolved.agent?.timeoutMs ??
+				options.defaultTimeoutMs,
+			stallTimeoutMs:
+				options.stallTimeoutMs ??
+				resolved.agent?.stallTimeoutMs ??
+				options.defaultStallTimeoutMs,
+			env: resolved.agent?.env,
+			flags: resolved.agent?.flags,
+			sandbox,
+			runner: resolved.agent?.runner,
+			sessionFile,
 			signal,
 			onProgress: onProgress
 				? (state) => {
@@ -284,59 +761,282 @@ async function runResolvedTask(
 							model: state.model ?? resolved.model,
 							stopReason: state.stopReason,
 							finalText: state.text,
+							partialText: state.partialText || undefined,
+							runningTools: state.runningTools,
+							lastToolResult: state.lastToolResult,
 							toolCalls: state.toolCalls,
 							usage: state.usage,
 						});
 					}
 				: undefined,
-		});
-		const finalText =
-			run.exitCode !== 0 ||
-			run.stopReason === "error" ||
-			run.stopReason === "aborted"
-				? run.errorMessage ||
-					run.stderr.trim() ||
-					run.finalText ||
-					"(no output)"
-				: run.finalText ||
-					run.errorMessage ||
-					run.stderr.trim() ||
-					"(no output)";
+		};
+		const run: StructuredRunResult = resolved.outputSchema
+			? await runStructuredSubagent(runOptions, resolved.outputSchema)
+			: await runSubagent(runOptions);
+		const invalidOutput = Boolean(run.structuredOutputErrors);
+		const finalText = invalidOutput
+			? `${run.finalText || "(no output)"}\n\n[Output does not match the schema: ${run.structuredOutputErrors?.join("; ")}]`
+			: LIMIT_STOP_REASONS.has(run.stopReason ?? "")
+				? [run.finalText, `[${run.errorMessage}]`].filter(Boolean).join("\n\n")
+				: isFailedStop(run.exitCode, run.stopReason)
+					? run.errorMessage ||
+						run.stderr.trim() ||
+						run.finalText ||
+						"(no output)"
+					: run.finalText ||
+						run.errorMessage ||
+						run.stderr.trim() ||
+						"(no output)";
 		return {
-			...base,
-			model: run.model ?? resolved.model,
-			exitCode: run.exitCode,
-			stopReason: run.stopReason,
-			stderr: run.stderr.trim() || undefined,
-			finalText,
-			toolCalls: run.toolCalls,
-			usage: run.usage,
-			malformedJsonLines: run.malformedJsonLines,
-			running: false,
+			result: {
+				...base,
+				model: run.model ?? resolved.model,
+				exitCode: run.exitCode,
+				stopReason: invalidOutput ? "invalid_output" : run.stopReason,
+				stderr: run.stderr.trim() || undefined,
+				finalText,
+				structuredOutput: run.structuredOutput,
+				toolCalls: run.toolCalls,
+				usage: run.usage,
+				malformedJsonLines: run.malformedJsonLines,
+				runner: run.runner,
+				running: false,
+			},
+			failure: classifyFailure(run),
 		};
 	} catch (error) {
 		const message = error instanceof Error ? error.message : "Subagent failed";
+		const aborted = message.toLowerCase().includes("aborted");
 		return {
-			...base,
-			exitCode: 1,
-			stopReason: message.toLowerCase().includes("aborted")
-				? "aborted"
-				: "error",
-			finalText: message,
-			running: false,
+			result: {
+				...base,
+				exitCode: 1,
+				stopReason: aborted ? "aborted" : "error",
+				finalText: message,
+				running: false,
+			},
+			failure: aborted ? undefined : "spawn",
+		};
+	} finally {
+		release?.();
+		if (ownedSession) options.activeSessions?.delete(ownedSession);
+	}
+}
+
+async function runAttempt(
+	resolved: ResolvedTask,
+	defaultCwd: string,
+	signal: AbortSignal | undefined,
+	onProgress: ((result: SubagentResult) => void) | undefined,
+	options: ExecuteOptions,
+): Promise<AttemptOutcome> {
+	const cwd = resolved.cwd ?? resolved.agent?.cwd ?? defaultCwd;
+	if (resolved.isolation !== "worktree")
+		return spawnAttempt(resolved, cwd, signal, onProgress, options);
+	let worktree: SubagentWorktree;
+	try {
+		worktree = await createWorktree(cwd);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return {
+			result: {
+				...makePlaceholder(resolved),
+				exitCode: 1,
+				stopReason: "error",
+				finalText: `Could not create a git worktree for ${cwd}: ${message.trim()}`,
+				running: false,
+			},
+		};
+	}
+	let keep = false;
+	try {
+		const outcome = await spawnAttempt(
+			resolved,
+			worktree.cwd,
+			signal,
+			onProgress,
+			options,
+		);
+		outcome.result.changes = await collectWorktreeChanges(worktree);
+		keep = Boolean(outcome.result.changes.keptWorktree);
+		return outcome;
+	} finally {
+		if (!keep) await removeWorktree(worktree);
+	}
+}
+
+/**
+ * A provider error before the child made any tool call usually means the model
+ * itself is unavailable, so the next model in the fallback chain gets a turn.
+ * pi also exits nonzero before its first message when it does not know the
+ * model, which leaves no stop reason and no turns behind.
+ */
+function isStartupFailure(
+	result: SubagentResult,
+	failure: RetryableFailure | undefined,
+): boolean {
+	if (failure === "provider") return result.toolCalls.length === 0;
+	return (
+		!failure &&
+		result.exitCode !== 0 &&
+		!result.stopReason &&
+		(result.usage?.turns ?? 0) === 0
+	);
+}
+
+async function runWithRetries(
+	resolved: ResolvedTask,
+	defaultCwd: string,
+	signal: AbortSignal | undefined,
+	onProgress: ((result: SubagentResult) => void) | undefined,
+	options: ExecuteOptions,
+): Promise<SubagentResult> {
+	const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+	const chain = [resolved.model, ...(resolved.fallbackModels ?? [])];
+	const attempts: SubagentResult[] = [];
+	let modelIndex = 0;
+	let tries = 0;
+	for (let attempt = 1; ; attempt++) {
+		tries++;
+		const { result, failure } = await runAttempt(
+			{ ...resolved, model: chain[modelIndex] },
+			defaultCwd,
+			signal,
+			onProgress
+				? (partial) =>
+						onProgress({
+							...partial,
+							attempts: attempt,
+							usage: sumUsage([...attempts, partial]),
+						})
+				: undefined,
+			options,
+		);
+		attempts.push(result);
+		const final = {
+			...result,
+			attempts: attempt,
+			attemptErrors:
+				attempt > 1
+					? attempts
+							.slice(0, -1)
+							.map((failed) =>
+								[failed.model, failed.finalText.split("\n")[0]]
+									.filter(Boolean)
+									.join(": "),
+							)
+					: undefined,
+			usage: attempt > 1 ? sumUsage(attempts) : result.usage,
 		};
+		if (signal?.aborted) return final;
+		if (isStartupFailure(result, failure) && modelIndex < chain.length - 1) {
+			modelIndex++;
+			tries = 0;
+			onProgress?.({
+				...final,
+				exitCode: -1,
+				running: true,
+				finalText: `${result.model ?? "Model"} failed to start, falling back to ${chain[modelIndex]}...`,
+			});
+			continue;
+		}
+		if (!failure || !policy.on.includes(failure) || tries >= policy.maxAttempts)
+			return final;
+		onProgress?.({
+			...final,
+			exitCode: -1,
+			running: true,
+			finalText: `Attempt ${attempt} failed (${failure}), retrying...`,
+		});
+		await sleep(retryDelay(policy, tries), signal);
+		if (signal?.aborted) return final;
 	}
 }
 
+/**
+ * Worktree runs report changes that are not reproducible from the cache,
+ * resumed runs depend on their earlier conversation, and runs on pi's default
+ * model would survive a change of that default, so none of them is cached.
+ */
+async function taskCacheKey(
+	resolved: ResolvedTask,
+	defaultCwd: string,
+	options: ExecuteOptions,
+): Promise<string | undefined> {
+	if (
+		!options.treeHash ||
+		resolved.isolation === "worktree" ||
+		resolved.sessionFile ||
+		!resolved.model
+	)
+		return undefined;
+	const tree = await options.treeHash(
+		resolved.cwd ?? resolved.agent?.cwd ?? defaultCwd,
+	);
+	if (!tree) return undefined;
+	return cacheKey(
+		{
+			agent: resolved.agentName,
+			systemPrompt: resolved.agent?.systemPrompt ?? "",
+			model: resolved.model,
+			thinking: resolved.agent?.thinking,
+			task: withHandoff(resolved.task, resolved.handoff),
+			tools: resolved.agent?.tools,
+			images: resolved.handoff?.images,
+			outputSchema: resolved.outputSchema,
+			env: resolved.agent?.env,
+			flags: resolved.agent?.flags,
+			runner: resolved.agent?.runner,
+			sandbox: resolved.agent?.sandbox ?? Boolean(options.sandbox),
+			budget: mergeBudgets(resolved.agent?.budget, options.budget),
+		},
+		tree,
+	);
+}
+
+async function runResolvedTask(
+	resolved: ResolvedTask,
+	defaultCwd: string,
+	signal: AbortSignal | undefined,
+	onProgress: ((result: SubagentResult) => void) | undefined,
+	options: ExecuteOptions,
+): Promise<SubagentResult> {
+	const key = await taskCacheKey(resolved, defaultCwd, options);
+	const cached = key ? readCachedResult(key) : undefined;
+	if (cached)
+		return {
+			...cached,
+			id: resolved.id,
+			dependsOn: resolved.dependsOn,
+			task: resolved.task,
+			cached: true,
+		};
+	const result = await runWithRetries(
+		resolved,
+		defaultCwd,
+		signal,
+		onProgress,
+		options,
+	);
+	if (key && !isFailed(result)) writeCachedResult(key, result);
+	return result;
+}
+
 function resolveTask(
-	agentName: string | undefined,
-	task: string,
-	cwd: string | undefined,
+	item: HandoffRequest & {
+		agent?: string;
+		task: string;
+		cwd?: string;
+		isolation?: IsolationMode;
+		outputSchema?: OutputSchema;
+	},
 	agents: AgentConfig[],
 	availableAgents: string,
-	models: Model<Api>[],
+	modelChain: (candidates: string[] | undefined) => string[],
+	attach: (request: HandoffRequest, cwd?: string) => Handoff | undefined,
 ): { resolved?: ResolvedTask; error?: SubagentResult } {
-	const trimmedTask = task.trim();
+	const agentName = item.agent;
+	const trimmedTask = item.task.trim();
 	const namedAgent = agentName
 		? agents.find((candidate) => candidate.name === agentName)
 		: undefined;
@@ -365,245 +1065,911 @@ function resolveTask(
 			},
 		};
 	}
+	let handoff: Handoff | undefined;
+	try {
+		handoff = attach(item, item.cwd ?? namedAgent?.cwd);
+	} catch (error) {
+		return {
+			error: {
+				agent: namedAgent?.name ?? "adhoc",
+				agentSource: namedAgent?.source ?? "adhoc",
+				task: trimmedTask,
+				exitCode: 1,
+				finalText: error instanceof Error ? error.message : String(error),
+				toolCalls: [],
+			},
+		};
+	}
+	const [model, ...fallbackModels] = modelChain(namedAgent?.models);
 	return {
 		resolved: {
 			agent: namedAgent,
 			agentName: namedAgent?.name ?? "adhoc",
 			agentSource: namedAgent?.source ?? "adhoc",
 			task: trimmedTask,
-			cwd,
-			model: resolveModel(namedAgent?.model, models),
+			cwd: item.cwd,
+			isolation: item.isolation ?? namedAgent?.isolation,
+			outputSchema: item.outputSchema ?? namedAgent?.outputSchema,
+			handoff,
+			model,
+			fallbackModels,
 		},
 	};
 }
 
+function resumeHint(result: SubagentResult): string {
+	if (result.cached)
+		return "\n\n[Cached result of an identical earlier run. It cannot be resumed.]";
+	return result.runId
+		? `\n\n[Run ${result.runId}: pass resume: "${result.runId}" with a new task to follow up.]`
+		: "";
+}
+
 function singleContent(result: SubagentResult): string {
-	return resultOutput(result);
+	return `${resultOutput(result)}${resumeHint(result)}`;
+}
+
+function synthesisInput(results: SubagentResult[], outputCap: number): string {
+	const sections = results.map(
+		(result, index) =>
+			`### ${result.id ?? index + 1}. ${result.agent}: ${statusLabel(result)}\n\nTask: ${result.task}\n\n${truncateOutput(resultOutput(result), outputCap)}`,
+	);
+	return `## Task results\n\n${sections.join("\n\n")}`;
 }
 
-function parallelContent(results: SubagentResult[]): string {
+function synthesisContent(
+	results: SubagentResult[],
+	synthesis: SubagentResult,
+	label: string,
+	outputCap: number,
+): string {
 	const successCount = results.filter((result) => !isFailed(result)).length;
-	const summaries = results.map((result, index) => {
-		const output = truncateOutput(resultOutput(result));
-		return `### [${index + 1}. ${result.agent}] ${statusLabel(result)}\n\n${output}`;
-	});
-	return `Parallel: ${successCount}/${results.length} succeeded\n\n${summaries.join("\n\n---\n\n")}`;
+	if (!isFailed(synthesis))
+		return `${label}: ${successCount}/${results.length} succeeded, merged by ${synthesis.agent}\n\n${resultOutput(synthesis)}${resumeHint(synthesis)}`;
+	const reason = resultOutput(synthesis).split("\n")[0];
+	return `${parallelContent(results, label, outputCap)}\n\n---\n\nSynthesis by ${synthesis.agent} ${statusLabel(synthesis)}: ${reason}`;
 }
 
-export default function (pi: ExtensionAPI) {
-	pi.on("session_start", async (_event, ctx) => {
-		const discovery = discoverAgents(ctx.cwd);
-		const summary = formatAgentList(discovery.agents);
-		ctx.ui.notify(`Subagents available:\n${summary || "none"}`, "info");
+function parallelContent(
+	results: SubagentResult[],
+	label: string,
+	outputCap: number,
+): string {
+	const successCount = results.filter((result) => !isFailed(result)).length;
+	const summaries = results.map((result, index) => {
+		const output = truncateOutput(resultOutput(result), outputCap);
+		const retried =
+			(result.attempts ?? 1) > 1 ? ` after ${result.attempts} attempts` : "";
+		const run = result.cached
+			? " (cached)"
+			: result.runId
+				? ` (run ${result.runId})`
+				: "";
+		return `### [${result.id ?? index + 1}. ${result.agent}] ${statusLabel(result)}${retried}${run}\n\n${output}`;
 	});
+	return `${label}: ${successCount}/${results.length} succeeded\n\n${summaries.join("\n\n---\n\n")}`;
+}
 
-	pi.registerCommand("subagents", {
-		description: "List available subagents",
-		handler: async (_args, ctx) => {
-			const discovery = discoverAgents(ctx.cwd);
-			ctx.ui.notify(
-				`Available subagents:\n\n${formatDetailedAgentList(discovery.agents) || "none"}`,
-				"info",
-			);
-		},
-	});
+function fillPrevious(task: string, previous: string): string {
+	return task.replace(/\{previous\}/g, () => previous);
+}
 
-	pi.registerTool({
-		name: "subagent",
-		label: "Subagent",
-		description:
-			"Delegate tasks to subagents with isolated context. Use single mode with agent/task, or parallel mode with tasks. Provide agent to use a named agent like scout, or omit agent in single mode for an ad-hoc isolated pi agent. Use scout for codebase reconnaissance and avoid subagents for tiny local edits.",
-		parameters: ToolParams,
-		async execute(_toolCallId, params, signal, onUpdate, ctx) {
-			const discovery = discoverAgents(ctx.cwd);
-			const availableAgents = formatAgentList(discovery.agents);
-			const models = ctx.modelRegistry.getAvailable();
-			const hasParallel = params.tasks !== undefined;
-			const hasSingleFields =
-				params.agent !== undefined ||
-				params.task !== undefined ||
-				params.cwd !== undefined;
-
-			if (Number(hasParallel) + Number(hasSingleFields) !== 1) {
-				const result: SubagentResult = {
-					agent: params.agent ?? "adhoc",
-					task: params.task ?? "",
+function chainContent(
+	results: SubagentResult[],
+	steps: ChainStep[],
+	outputCap: number,
+): string {
+	const last = results[results.length - 1];
+	if (!last) return "(no output)";
+	if (results.length === steps.length && !isFailed(last))
+		return `${resultOutput(last)}${resumeHint(last)}`;
+	return `Chain stopped at step ${results.length}/${steps.length} (${last.agent}): ${statusLabel(last)}\n\n${truncateOutput(resultOutput(last), outputCap)}${resumeHint(last)}`;
+}
+
+function requestedMode(params: SubagentParams): SubagentMode {
+	if (params.chain !== undefined) return "chain";
+	if (params.tasks === undefined) return "single";
+	return params.tasks.some((task) => (task.dependsOn?.length ?? 0) > 0)
+		? "dag"
+		: "parallel";
+}
+
+function jobLabel(params: SubagentParams): string {
+	if (params.chain !== undefined) return `chain (${params.chain.length} steps)`;
+	if (params.tasks !== undefined)
+		return `${requestedMode(params)} (${params.tasks.length} tasks)`;
+	if (params.resume !== undefined) return `resume ${params.resume}`;
+	return params.agent || "adhoc";
+}
+
+function jobNotFound(id: string) {
+	return {
+		isError: true,
+		content: [{ type: "text" as const, text: `Unknown subagent job: ${id}` }],
+		details: undefined,
+	};
+}
+
+/**
+ * Finds the run a follow-up continues. Its session must still exist, and so
+ * must its working directory, which rules out runs in removed worktrees.
+ */
+function findResumableRun(
+	ctx: ExtensionContext,
+	runId: string,
+	agent: string | undefined,
+): { run?: SubagentResult; error?: string } {
+	const run = findSubagentRun(ctx, runId.trim());
+	if (!run?.sessionFile) return { error: `Unknown subagent run: ${runId}` };
+	if (agent !== undefined && agent !== run.agent)
+		return {
+			error: `Run ${runId} belongs to ${run.agent}. Omit agent when resuming.`,
+		};
+	if (!fs.existsSync(run.sessionFile))
+		return {
+			error: `The session of run ${runId} is gone. Start a new run instead.`,
+		};
+	const cwd = readSessionCwd(run.sessionFile);
+	if (cwd && !fs.existsSync(cwd))
+		return {
+			error: `Run ${runId} worked in ${cwd}, which no longer exists (worktree runs cannot be resumed). Start a new run instead.`,
+		};
+	return { run };
+}
+
+function modeError(mode: SubagentMode, text: string) {
+	return {
+		isError: true,
+		content: [{ type: "text" as const, text }],
+		details: {
+			mode,
+			results: [
+				{
+					agent: mode,
+					task: "",
 					exitCode: 1,
-					finalText:
-						"Invalid parameters. Provide exactly one mode: single task or parallel tasks.",
+					finalText: text,
 					toolCalls: [],
-					availableAgents,
-				};
+				},
+			],
+		} as SubagentDetails,
+	};
+}
+
+/** A validated call whose agents are trusted and whose tasks are resolved. */
+type PreparedCall =
+	| { mode: "single"; task: ResolvedTask }
+	| { mode: "chain"; steps: ResolvedTask[] }
+	| {
+			mode: "parallel" | "dag";
+			tasks: ResolvedTask[];
+			aggregator?: ResolvedTask;
+	  };
+
+function validationError(
+	mode: SubagentMode,
+	errors: SubagentResult[],
+): SubagentToolResult {
+	return {
+		isError: true,
+		content: [{ type: "text", text: errors[0].finalText }],
+		details: { mode, results: errors } as SubagentDetails,
+	};
+}
+
+/**
+ * Checks the parameters, asks for project agent trust and resolves every task,
+ * including attachments. Runs before a background job starts, so its errors
+ * and the trust prompt reach the parent immediately.
+ */
+async function prepareSubagentCall(
+	params: SubagentParams,
+	ctx: ExtensionContext,
+	options: ExecuteOptions,
+): Promise<{ call?: PreparedCall; error?: SubagentToolResult }> {
+	const discovery = discoverAgents(ctx.cwd);
+	const availableAgents = formatAgentList(discovery.agents);
+	const models = ctx.modelRegistry.getAvailable();
+	const { aliases } = loadSubagentSettings();
+	const modelChain = (candidates: string[] | undefined) =>
+		resolveModelChain(candidates, models, aliases);
+	const branch = ctx.sessionManager.getBranch();
+	const attach = (request: HandoffRequest, cwd?: string) =>
+		materializeHandoff(
+			request,
+			cwd ?? ctx.cwd,
+			branch,
+			(id) => ctx.sessionManager.getLabel(id),
+			options.sandbox ? ctx.cwd : undefined,
+		);
+	const hasParallel = params.tasks !== undefined;
+	const hasChain = params.chain !== undefined;
+	const hasSingleFields =
+		params.agent !== undefined ||
+		params.task !== undefined ||
+		params.cwd !== undefined ||
+		params.resume !== undefined;
+
+	if (Number(hasParallel) + Number(hasChain) + Number(hasSingleFields) !== 1) {
+		const result: SubagentResult = {
+			agent: params.agent ?? "adhoc",
+			task: params.task ?? "",
+			exitCode: 1,
+			finalText:
+				"Invalid parameters. Provide exactly one mode: single task, parallel tasks or chain steps.",
+			toolCalls: [],
+			availableAgents,
+		};
+		return { error: validationError("single", [result]) };
+	}
+
+	let resumed: SubagentResult | undefined;
+	if (params.resume !== undefined) {
+		const found = findResumableRun(ctx, params.resume, params.agent);
+		if (found.error) return { error: modeError("single", found.error) };
+		resumed = found.run;
+	}
+
+	if (params.synthesize && !hasParallel)
+		return {
+			error: modeError(
+				requestedMode(params),
+				"synthesize only applies to parallel tasks.",
+			),
+		};
+
+	const requestedAgents = new Set([
+		params.agent ?? resumed?.agent,
+		params.synthesize
+			? (params.synthesize.agent ?? SYNTHESIZER_AGENT)
+			: undefined,
+		...(params.tasks ?? []).map((task) => task.agent),
+		...(params.chain ?? []).map((step) => step.agent),
+	]);
+	const trustError = await ensureProjectAgentsTrusted(
+		discovery.agents.filter((agent) => requestedAgents.has(agent.name)),
+		discovery.projectAgentsDir,
+		ctx,
+	);
+	if (trustError) {
+		return {
+			error: {
+				isError: true,
+				content: [{ type: "text", text: trustError }],
+				details: {
+					mode: requestedMode(params),
+					results: [],
+				} as SubagentDetails,
+			},
+		};
+	}
+
+	if (!hasParallel && !hasChain) {
+		const { resolved, error } = resolveTask(
+			resumed
+				? {
+						...params,
+						agent: resumed.agentSource === "adhoc" ? undefined : resumed.agent,
+						task: params.task ?? "",
+						cwd: readSessionCwd(resumed.sessionFile ?? ""),
+						isolation: "none",
+					}
+				: { ...params, task: params.task ?? "" },
+			discovery.agents,
+			availableAgents,
+			modelChain,
+			attach,
+		);
+		if (resolved && resumed) {
+			resolved.sessionFile = resumed.sessionFile;
+			resolved.model = resumed.model ?? resolved.model;
+			resolved.fallbackModels = [];
+		}
+		if (error) return { error: validationError("single", [error]) };
+		if (resumed?.sessionFile) {
+			if (options.activeSessions?.has(resumed.sessionFile))
 				return {
-					isError: true,
-					content: [{ type: "text", text: result.finalText }],
-					details: { mode: "single", results: [result] } as SubagentDetails,
+					error: modeError(
+						"single",
+						`Run ${params.resume} is still running. Wait for it to finish before resuming it.`,
+					),
 				};
-			}
+			options.activeSessions?.add(resumed.sessionFile);
+		}
+		return { call: { mode: "single", task: resolved as ResolvedTask } };
+	}
 
-			if (!hasParallel) {
-				const { resolved, error } = resolveTask(
-					params.agent,
-					params.task ?? "",
-					params.cwd,
-					discovery.agents,
-					availableAgents,
-					models,
-				);
-				if (error) {
-					return {
-						isError: true,
-						content: [{ type: "text", text: error.finalText }],
-						details: { mode: "single", results: [error] } as SubagentDetails,
-					};
-				}
-				const initial = makePlaceholder(resolved as ResolvedTask);
-				onUpdate?.({
-					content: [{ type: "text", text: "(starting...)" }],
-					details: { mode: "single", results: [initial] } as SubagentDetails,
+	if (hasChain) {
+		const chain = params.chain ?? [];
+		if (chain.length === 0)
+			return { error: modeError("chain", "Chain steps must not be empty.") };
+		if (chain.length > MAX_CHAIN_STEPS)
+			return {
+				error: modeError(
+					"chain",
+					`Too many chain steps (${chain.length}). Max is ${MAX_CHAIN_STEPS}.`,
+				),
+			};
+
+		const resolvedSteps: ResolvedTask[] = [];
+		const validationErrors: SubagentResult[] = [];
+		for (const step of chain) {
+			if (!step.agent.trim()) {
+				validationErrors.push({
+					agent: "unknown",
+					task: step.task.trim(),
+					exitCode: 1,
+					finalText: "Agent is required for chain steps.",
+					toolCalls: [],
 				});
-				const result = await runResolvedTask(
-					resolved as ResolvedTask,
-					ctx.cwd,
-					signal,
-					onUpdate
-						? (partial) => {
-								onUpdate({
-									content: [
-										{ type: "text", text: partial.finalText || "(running...)" },
-									],
-									details: {
-										mode: "single",
-										results: [partial],
-									} as SubagentDetails,
-								});
-							}
-						: undefined,
-				);
-				return {
-					isError: isFailed(result),
-					content: [{ type: "text", text: singleContent(result) }],
-					details: { mode: "single", results: [result] } as SubagentDetails,
-				};
+				continue;
 			}
+			const { resolved, error } = resolveTask(
+				step,
+				discovery.agents,
+				availableAgents,
+				modelChain,
+				attach,
+			);
+			if (error) validationErrors.push(error);
+			if (resolved) resolvedSteps.push(resolved);
+		}
+		if (validationErrors.length > 0)
+			return { error: validationError("chain", validationErrors) };
+		return { call: { mode: "chain", steps: resolvedSteps } };
+	}
 
-			const tasks = params.tasks ?? [];
-			if (tasks.length === 0) {
-				const text = "Parallel tasks must not be empty.";
-				return {
-					isError: true,
-					content: [{ type: "text", text }],
-					details: {
-						mode: "parallel",
-						results: [
-							{
-								agent: "parallel",
-								task: "",
-								exitCode: 1,
-								finalText: text,
-								toolCalls: [],
-							},
-						],
-					} as SubagentDetails,
-				};
-			}
-			if (tasks.length > MAX_PARALLEL_TASKS) {
-				const text = `Too many parallel tasks (${tasks.length}). Max is ${MAX_PARALLEL_TASKS}.`;
-				return {
-					isError: true,
-					content: [{ type: "text", text }],
-					details: {
-						mode: "parallel",
-						results: [
-							{
-								agent: "parallel",
-								task: "",
-								exitCode: 1,
-								finalText: text,
-								toolCalls: [],
-							},
-						],
-					} as SubagentDetails,
-				};
-			}
+	const tasks = params.tasks ?? [];
+	if (tasks.length === 0)
+		return {
+			error: modeError("parallel", "Parallel tasks must not be empty."),
+		};
+	if (tasks.length > options.limits.maxParallelTasks)
+		return {
+			error: modeError(
+				"parallel",
+				`Too many parallel tasks (${tasks.length}). Max is ${options.limits.maxParallelTasks}.`,
+			),
+		};
 
-			const resolvedTasks: ResolvedTask[] = [];
-			const validationErrors: SubagentResult[] = [];
-			for (const task of tasks) {
-				if (!task.agent.trim()) {
-					validationErrors.push({
-						agent: "unknown",
-						task: task.task.trim(),
-						exitCode: 1,
-						finalText: "Agent is required for parallel tasks.",
-						toolCalls: [],
-					});
-					continue;
-				}
-				const { resolved, error } = resolveTask(
-					task.agent,
-					task.task,
-					task.cwd,
-					discovery.agents,
-					availableAgents,
-					models,
-				);
-				if (error) validationErrors.push(error);
-				if (resolved) resolvedTasks.push(resolved);
-			}
-			if (validationErrors.length > 0) {
-				return {
-					isError: true,
-					content: [{ type: "text", text: validationErrors[0].finalText }],
-					details: {
-						mode: "parallel",
-						results: validationErrors,
-					} as SubagentDetails,
-				};
-			}
+	const isGraph = tasks.some((task) => (task.dependsOn?.length ?? 0) > 0);
+	const mode: SubagentMode = isGraph ? "dag" : "parallel";
+	const resolvedTasks: ResolvedTask[] = [];
+	const validationErrors: SubagentResult[] = [];
+	for (const [index, task] of tasks.entries()) {
+		if (!task.agent.trim()) {
+			validationErrors.push({
+				agent: "unknown",
+				task: task.task.trim(),
+				exitCode: 1,
+				finalText: "Agent is required for parallel tasks.",
+				toolCalls: [],
+			});
+			continue;
+		}
+		const { resolved, error } = resolveTask(
+			task,
+			discovery.agents,
+			availableAgents,
+			modelChain,
+			attach,
+		);
+		if (error) validationErrors.push(error);
+		if (resolved)
+			resolvedTasks.push(
+				isGraph
+					? {
+							...resolved,
+							id: task.id?.trim() || String(index + 1),
+							dependsOn: (task.dependsOn ?? [])
+								.map((dependency) => dependency.trim())
+								.filter(Boolean),
+						}
+					: resolved,
+			);
+	}
+	let aggregator: ResolvedTask | undefined;
+	if (params.synthesize) {
+		const { resolved, error } = resolveTask(
+			{
+				agent: params.synthesize.agent ?? SYNTHESIZER_AGENT,
+				task: params.synthesize.task ?? SYNTHESIS_TASK,
+				outputSchema: params.synthesize.outputSchema,
+			},
+			discovery.agents,
+			availableAgents,
+			modelChain,
+			attach,
+		);
+		if (error) validationErrors.push(error);
+		aggregator = resolved;
+	}
+	if (isGraph && validationErrors.length === 0)
+		validationErrors.push(...validateGraph(resolvedTasks));
+	if (validationErrors.length > 0)
+		return { error: validationError(mode, validationErrors) };
+	return { call: { mode, tasks: resolvedTasks, aggregator } };
+}
 
-			const allResults = resolvedTasks.map(makePlaceholder);
-			const emitParallelUpdate = () => {
-				onUpdate?.({
-					content: [
-						{ type: "text", text: `${aggregateStatus(allResults)}...` },
-					],
-					details: {
-						mode: "parallel",
-						results: [...allResults],
-					} as SubagentDetails,
-				});
+async function runSubagentCall(
+	call: PreparedCall,
+	signal: AbortSignal | undefined,
+	onUpdate: ((partial: SubagentToolResult) => void) | undefined,
+	ctx: ExtensionContext,
+	options: ExecuteOptions,
+): Promise<SubagentToolResult> {
+	if (call.mode === "single") {
+		const resolved = call.task;
+		const initial = makePlaceholder(resolved);
+		onUpdate?.({
+			content: [{ type: "text", text: "(starting...)" }],
+			details: { mode: "single", results: [initial] } as SubagentDetails,
+		});
+		let result: SubagentResult;
+		try {
+			result = await runResolvedTask(
+				resolved,
+				ctx.cwd,
+				signal,
+				onUpdate
+					? (partial) => {
+							onUpdate({
+								content: [
+									{ type: "text", text: partial.finalText || "(running...)" },
+								],
+								details: {
+									mode: "single",
+									results: [partial],
+								} as SubagentDetails,
+							});
+						}
+					: undefined,
+				options,
+			);
+		} finally {
+			// Releases the session a resume claimed in prepareSubagentCall.
+			if (resolved.sessionFile)
+				options.activeSessions?.delete(resolved.sessionFile);
+		}
+		return {
+			isError: isFailed(result),
+			content: [{ type: "text", text: singleContent(result) }],
+			details: { mode: "single", results: [result] } as SubagentDetails,
+		};
+	}
+
+	if (call.mode === "chain") {
+		const resolvedSteps = call.steps;
+		const steps: ChainStep[] = resolvedSteps.map((step) => ({
+			agent: step.agentName,
+			status: "pending",
+		}));
+		const results: SubagentResult[] = [];
+		const emitChainUpdate = (current?: SubagentResult) => {
+			const shown = current ? [...results, current] : [...results];
+			onUpdate?.({
+				content: [
+					{
+						type: "text",
+						text:
+							current?.finalText ||
+							`Chain: step ${shown.length}/${steps.length}...`,
+					},
+				],
+				details: {
+					mode: "chain",
+					results: shown,
+					steps: steps.map((step) => ({ ...step })),
+				} as SubagentDetails,
+			});
+		};
+
+		let previous = "";
+		for (let i = 0; i < resolvedSteps.length; i++) {
+			const step = {
+				...resolvedSteps[i],
+				task: fillPrevious(resolvedSteps[i].task, previous),
 			};
-			emitParallelUpdate();
+			steps[i].status = "running";
+			emitChainUpdate(makePlaceholder(step));
+			const result = await runResolvedTask(
+				step,
+				ctx.cwd,
+				signal,
+				onUpdate ? emitChainUpdate : undefined,
+				options,
+			);
+			results.push(result);
+			if (isFailed(result)) {
+				steps[i].status = "failed";
+				for (const skipped of steps.slice(i + 1)) skipped.status = "skipped";
+				break;
+			}
+			steps[i].status = "completed";
+			previous = result.finalText;
+		}
+
+		return {
+			isError: results.some(isFailed),
+			content: [
+				{
+					type: "text",
+					text: chainContent(results, steps, options.limits.outputCap),
+				},
+			],
+			details: { mode: "chain", results, steps } as SubagentDetails,
+		};
+	}
 
-			const results = await mapWithConcurrencyLimit(
+	const { mode, tasks: resolvedTasks, aggregator } = call;
+	const isGraph = mode === "dag";
+	const label = isGraph ? "DAG" : "Parallel";
+	const allResults = resolvedTasks.map(
+		(task): SubagentResult => ({
+			...makePlaceholder(task),
+			pending: isGraph,
+		}),
+	);
+	let synthesis: SubagentResult | undefined;
+	const emitParallelUpdate = () => {
+		onUpdate?.({
+			content: [
+				{
+					type: "text",
+					text: synthesis
+						? `Synthesizing ${allResults.length} results with ${synthesis.agent}...`
+						: `${aggregateStatus(allResults, label)}...`,
+				},
+			],
+			details: {
+				mode,
+				results: [...allResults],
+				synthesis,
+			} as SubagentDetails,
+		});
+	};
+	emitParallelUpdate();
+
+	const runOne = async (task: ResolvedTask, index: number) => {
+		allResults[index] = makePlaceholder(task);
+		emitParallelUpdate();
+		const result = await runResolvedTask(
+			task,
+			ctx.cwd,
+			signal,
+			(partial) => {
+				allResults[index] = partial;
+				emitParallelUpdate();
+			},
+			options,
+		);
+		allResults[index] = result;
+		emitParallelUpdate();
+		return result;
+	};
+	const results = isGraph
+		? await runTaskGraph(
 				resolvedTasks,
-				MAX_CONCURRENCY,
+				options.limits.concurrency,
 				signal,
-				async (task, index) => {
-					const result = await runResolvedTask(
-						task,
-						ctx.cwd,
-						signal,
-						(partial) => {
-							allResults[index] = partial;
-							emitParallelUpdate();
+				(task, index, upstream) =>
+					runOne(
+						{
+							...task,
+							task: withUpstreamOutputs(
+								task.task,
+								upstream,
+								options.limits.outputCap,
+							),
 						},
-					);
-					allResults[index] = result;
+						index,
+					),
+				(skipped, index) => {
+					allResults[index] = skipped;
 					emitParallelUpdate();
-					return result;
 				},
+			)
+		: await mapWithConcurrencyLimit(
+				resolvedTasks,
+				options.limits.concurrency,
+				signal,
+				runOne,
+			);
+
+	const successCount = results.filter((result) => !isFailed(result)).length;
+	if (!aggregator || successCount === 0 || signal?.aborted) {
+		return {
+			isError: successCount === 0,
+			content: [
+				{
+					type: "text",
+					text: parallelContent(results, label, options.limits.outputCap),
+				},
+			],
+			details: { mode, results } as SubagentDetails,
+		};
+	}
+
+	const merging: ResolvedTask = {
+		...aggregator,
+		handoff: {
+			text: synthesisInput(results, options.limits.outputCap),
+			images: [],
+		},
+	};
+	synthesis = makePlaceholder(merging);
+	emitParallelUpdate();
+	const merged = await runResolvedTask(
+		merging,
+		ctx.cwd,
+		signal,
+		(partial) => {
+			synthesis = partial;
+			emitParallelUpdate();
+		},
+		options,
+	);
+	return {
+		isError: isFailed(merged),
+		content: [
+			{
+				type: "text",
+				text: synthesisContent(
+					results,
+					merged,
+					label,
+					options.limits.outputCap,
+				),
+			},
+		],
+		details: { mode, results, synthesis: merged } as SubagentDetails,
+	};
+}
+
+async function executeSubagent(
+	params: SubagentParams,
+	signal: AbortSignal | undefined,
+	onUpdate: ((partial: SubagentToolResult) => void) | undefined,
+	ctx: ExtensionContext,
+	options: ExecuteOptions,
+): Promise<SubagentToolResult> {
+	const { call, error } = await prepareSubagentCall(params, ctx, options);
+	if (!call) return error as SubagentToolResult;
+	return runSubagentCall(call, signal, onUpdate, ctx, options);
+}
+
+export default function (pi: ExtensionAPI) {
+	pi.registerFlag("subagent-sessions", {
+		description: "Persist subagent transcripts as child sessions by default",
+		type: "boolean",
+		default: false,
+	});
+
+	pi.registerFlag("subagent-cache", {
+		description:
+			"Reuse results of identical subagent runs against an unchanged tree by default",
+		type: "boolean",
+		default: false,
+	});
+
+	pi.registerFlag("subagent-timeout", {
+		description: "Default wall-clock limit for subagent runs, e.g. 10m",
+		type: "string",
+	});
+
+	pi.registerFlag("subagent-stall-timeout", {
+		description:
+			"Stop subagents that emit no events for this long by default, e.g. 2m",
+		type: "string",
+	});
+
+	pi.registerFlag("subagent-max-tasks", {
+		description:
+			"Most tasks one parallel subagent call may fan out to (default 8)",
+		type: "string",
+	});
+
+	pi.registerFlag("subagent-concurrency", {
+		description: "Most subagents one call runs at the same time (default 4)",
+		type: "string",
+	});
+
+	pi.registerFlag("subagent-output-cap", {
+		description:
+			"Output returned per parallel subagent, e.g. 100k (default 50k)",
+		type: "string",
+	});
+
+	const flagDuration = (name: string) => {
+		const value = pi.getFlag(name);
+		return typeof value === "string" ? parseDuration(value) : undefined;
+	};
+
+	const configuredLimits = () =>
+		resolveLimits(loadSubagentSettings().limits, {
+			maxParallelTasks: positiveInteger(pi.getFlag("subagent-max-tasks")),
+			concurrency: positiveInteger(pi.getFlag("subagent-concurrency")),
+			outputCap: parseByteSize(pi.getFlag("subagent-output-cap")),
+		});
+
+	const modelLimiter = new ModelConcurrencyLimiter();
+	const activeSessions = new Set<string>();
+
+	const jobs = new SubagentJobRegistry();
+
+	// Published by tool-overrides.ts whenever the Gondolin sandbox turns on or off.
+	let parentSandboxed = false;
+	pi.events.on("gondolin:state", (data) => {
+		parentSandboxed = (data as { enabled?: unknown }).enabled === true;
+	});
+
+	pi.on("session_shutdown", async () => {
+		await jobs.cancelAll();
+		removeScratchSessions();
+	});
+
+	// Usage ledger (reconstructed from subagent tool results on the branch)
+	let usageRecords: UsageRecord[] = [];
+	const refreshUsage = (ctx: ExtensionContext) => {
+		usageRecords = collectUsageRecords(ctx);
+		const total = totalUsage(usageRecords);
+		ctx.ui.setStatus(
+			"subagents",
+			usageRecords.length > 0
+				? ctx.ui.theme.fg(
+						"dim",
+						`subagents: ${usageRecords.length} run${usageRecords.length === 1 ? "" : "s"} · $${total.cost.toFixed(4)}`,
+					)
+				: undefined,
+		);
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
+		const discovery = discoverAgents(ctx.cwd);
+		const summary = formatAgentList(discovery.agents);
+		ctx.ui.notify(`Subagents available:\n${summary || "none"}`, "info");
+		refreshUsage(ctx);
+	});
+	pi.on("session_tree", async (_event, ctx) => refreshUsage(ctx));
+	pi.on("turn_end", async (_event, ctx) => refreshUsage(ctx));
+
+	pi.registerCommand("subagent-usage", {
+		description: "Show subagent token and cost usage by agent, model and day",
+		handler: async (_args, ctx) => {
+			refreshUsage(ctx);
+			ctx.ui.notify(
+				`Subagent usage:\n\n${formatUsageReport(usageRecords)}`,
+				"info",
 			);
+		},
+	});
 
-			const successCount = results.filter((result) => !isFailed(result)).length;
+	pi.registerCommand("subagent-cache", {
+		description:
+			"Show cached subagent results. /subagent-cache clear removes them",
+		handler: async (args, ctx) => {
+			if (args.trim() === "clear") {
+				const removed = clearCache();
+				ctx.ui.notify(
+					`Removed ${removed} cached subagent result${removed === 1 ? "" : "s"}.`,
+					"info",
+				);
+				return;
+			}
+			const { entries, bytes } = cacheStats();
+			ctx.ui.notify(
+				`${entries} cached subagent result${entries === 1 ? "" : "s"} (${Math.round(bytes / 1024)} KB) in ${SUBAGENT_CACHE_DIR}. Run /subagent-cache clear to remove them.`,
+				"info",
+			);
+		},
+	});
+
+	pi.registerCommand("subagents", {
+		description:
+			"Manage subagents. /subagents list prints them, /subagents doctor checks agent definitions for problems",
+		handler: async (args, ctx) => {
+			const discovery = discoverAgents(ctx.cwd);
+			if (args.trim() === "doctor") {
+				const { report, problemCount } = formatDoctorReport(
+					discovery,
+					pi.getAllTools().map((tool) => tool.name),
+					ctx.modelRegistry.getAvailable(),
+					loadSubagentSettings().aliases,
+				);
+				ctx.ui.notify(
+					`Subagents doctor:\n\n${report}`,
+					problemCount === 0 ? "info" : "warning",
+				);
+				return;
+			}
+			if (ctx.hasUI && args.trim() !== "list") {
+				await openAgentManager(ctx);
+				return;
+			}
+			ctx.ui.notify(
+				`Available subagents:\n\n${formatDetailedAgentList(discovery.agents) || "none"}`,
+				"info",
+			);
+		},
+	});
+
+	pi.registerTool({
+		name: "subagent",
+		label: "Subagent",
+		description:
+			"Delegate tasks to subagents with isolated context. Use single mode with agent/task, parallel mode with tasks, or chain mode with sequential steps where {previous} in a step's task is replaced by the prior step's output. Parallel tasks may declare id and dependsOn to run as a dependency graph; dependents wait for and receive their upstream outputs. Provide agent to use a named agent like scout, or omit agent in single mode for an ad-hoc isolated pi agent. Set async: true for long runs to get a background job id instead of waiting. Each result names a run id; pass it as resume with a new task to ask that subagent a follow-up without it re-exploring. Set synthesize on a parallel call to have an aggregator agent merge the results and return only its condensed answer. Builtin agents: scout for codebase reconnaissance, planner for implementation plans, reviewer for read-only code review, tester to run checks, documenter for docs, researcher for web lookups and synthesizer to merge parallel results. Avoid subagents for tiny local edits.",
+		parameters: ToolParams,
+		async execute(_toolCallId, params, signal, onUpdate, ctx) {
+			const persist =
+				params.persist ?? Boolean(pi.getFlag("subagent-sessions"));
+			const options: ExecuteOptions = {
+				childSessions:
+					(persist ? childSessionTarget(ctx) : undefined) ??
+					scratchSessionTarget(),
+				budget: params.budget,
+				timeoutMs: params.timeout ? params.timeout * 1000 : undefined,
+				stallTimeoutMs: params.stallTimeout
+					? params.stallTimeout * 1000
+					: undefined,
+				defaultTimeoutMs: flagDuration("subagent-timeout"),
+				defaultStallTimeoutMs: flagDuration("subagent-stall-timeout"),
+				retry: params.retry,
+				limits: limitsForCall(configuredLimits(), params),
+				modelLimiter,
+				sandbox: parentSandboxed,
+				treeHash:
+					(params.cache ?? pi.getFlag("subagent-cache"))
+						? createTreeHasher()
+						: undefined,
+				activeSessions,
+			};
+			if (!params.async)
+				return executeSubagent(params, signal, onUpdate, ctx, options);
+			const { call, error } = await prepareSubagentCall(params, ctx, options);
+			if (!call) return error as SubagentToolResult;
+			const mode = call.mode;
+			const job = jobs.start(
+				mode,
+				jobLabel(params),
+				(jobSignal, onJobUpdate) =>
+					runSubagentCall(call, jobSignal, onJobUpdate, ctx, options),
+				(finished: SubagentJob) => {
+					pi.appendEntry(JOB_USAGE_ENTRY, finished.details);
+					refreshUsage(ctx);
+					ctx.ui.notify(
+						`Subagent ${finished.id} ${finished.status}: ${finished.label}`,
+						finished.status === "completed" ? "info" : "warning",
+					);
+				},
+			);
 			return {
-				isError: successCount === 0,
-				content: [{ type: "text", text: parallelContent(results) }],
-				details: { mode: "parallel", results } as SubagentDetails,
+				content: [
+					{
+						type: "text",
+						text: `Started background subagent job ${job.id} (${job.label}). Use subagent_result with id "${job.id}" to collect the output.`,
+					},
+				],
+				details: { mode, results: [], jobId: job.id } as SubagentDetails,
 			};
 		},
 		renderCall(args, theme) {
+			const attached = (request: HandoffRequest) => {
+				const summary = handoffSummary(request);
+				return summary ? theme.fg("muted", ` + ${summary}`) : "";
+			};
+			if (args.chain && args.chain.length > 0) {
+				let text =
+					theme.fg("toolTitle", theme.bold("subagent ")) +
+					theme.fg("accent", `chain (${args.chain.length} steps)`);
+				for (const [index, step] of args.chain.slice(0, 3).entries()) {
+					const task = fillPrevious(step.task, "").trim();
+					const preview = task.length > 40 ? `${task.slice(0, 40)}...` : task;
+					text += `\n  ${theme.fg("muted", `${index + 1}.`)} ${theme.fg("accent", step.agent)}${theme.fg("dim", ` ${preview}`)}${attached(step)}`;
+				}
+				if (args.chain.length > 3)
+					text += `\n  ${theme.fg("muted", `... +${args.chain.length - 3} more`)}`;
+				return new Text(text, 0, 0);
+			}
 			if (args.tasks && args.tasks.length > 0) {
 				let text =
 					theme.fg("toolTitle", theme.bold("subagent ")) +
@@ -611,15 +1977,25 @@ export default function (pi: ExtensionAPI) {
 				for (const task of args.tasks.slice(0, 3)) {
 					const preview =
 						task.task.length > 40 ? `${task.task.slice(0, 40)}...` : task.task;
-					text += `\n  ${theme.fg("accent", task.agent)}${theme.fg("dim", ` ${preview}`)}`;
+					const id = task.id ? theme.fg("muted", `${task.id}: `) : "";
+					const needs = task.dependsOn?.length
+						? theme.fg("muted", ` ← ${task.dependsOn.join(", ")}`)
+						: "";
+					text += `\n  ${id}${theme.fg("accent", task.agent)}${needs}${theme.fg("dim", ` ${preview}`)}${attached(task)}`;
 				}
 				if (args.tasks.length > 3)
 					text += `\n  ${theme.fg("muted", `... +${args.tasks.length - 3} more`)}`;
+				if (args.synthesize)
+					text += `\n  ${theme.fg("muted", "→ merged by")} ${theme.fg("accent", args.synthesize.agent ?? SYNTHESIZER_AGENT)}`;
 				return new Text(text, 0, 0);
 			}
 			const text =
 				theme.fg("toolTitle", theme.bold("subagent ")) +
-				theme.fg("accent", args.agent || "adhoc") +
+				theme.fg("accent", args.agent || (args.resume ? "" : "adhoc")) +
+				(args.resume
+					? theme.fg("muted", `${args.agent ? " " : ""}↩ run ${args.resume}`)
+					: "") +
+				attached(args) +
 				"\n" +
 				theme.fg("dim", args.task || "...");
 			return new Text(text, 0, 0);
@@ -648,31 +2024,83 @@ export default function (pi: ExtensionAPI) {
 				index: number,
 				includeTask: boolean,
 			) => {
-				const output = resultOutput(item);
+				const running = item.exitCode === -1 || item.running;
+				const output =
+					running && item.partialText ? item.partialText : resultText(item);
 				const outputLines = output.split("\n");
 				const shownOutput = expanded
 					? output
-					: outputLines.slice(0, 10).join("\n");
+					: running
+						? outputLines.slice(-LIVE_TAIL_LINES).join("\n")
+						: outputLines.slice(0, 10).join("\n");
 				const toolCalls = item.toolCalls ?? [];
 				const shownToolCalls = expanded ? toolCalls : toolCalls.slice(-6);
 				const failed = isFailed(item);
-				const running = item.exitCode === -1 || item.running;
-				const icon = running
-					? theme.fg("warning", "⏳")
-					: failed
-						? theme.fg("error", "✗")
-						: theme.fg("success", "✓");
+				const icon = item.pending
+					? theme.fg("dim", "○")
+					: running
+						? theme.fg("warning", "⏳")
+						: item.stopReason === "skipped"
+							? theme.fg("muted", "⊘")
+							: failed
+								? theme.fg("error", "✗")
+								: theme.fg("success", "✓");
+				const stopNote = LIMIT_STOP_REASONS.has(item.stopReason ?? "")
+					? theme.fg("warning", ` ${statusLabel(item)}`)
+					: "";
+				const retried =
+					(item.attempts ?? 1) > 1
+						? theme.fg("warning", ` ↻${item.attempts}`)
+						: "";
+				const needs = item.dependsOn?.length
+					? theme.fg("muted", ` ← ${item.dependsOn.join(", ")}`)
+					: "";
+				const sandboxNote =
+					item.sandboxed === true
+						? theme.fg("accent", " sandboxed")
+						: item.sandboxed === false
+							? theme.fg("warning", " unsandboxed")
+							: "";
+				const cachedNote = item.cached ? theme.fg("accent", " cached") : "";
 				const lines = [
-					`${theme.fg("muted", `─── ${index + 1}. `)}${theme.fg("toolTitle", theme.bold(item.agent))} ${icon}${item.agentSource ? theme.fg("muted", ` (${item.agentSource})`) : ""}`,
+					`${theme.fg("muted", `─── ${item.id ?? index + 1}. `)}${theme.fg("toolTitle", theme.bold(item.agent))} ${icon}${stopNote}${retried}${cachedNote}${sandboxNote}${item.agentSource ? theme.fg("muted", ` (${item.agentSource})`) : ""}${needs}`,
 				];
 				if (includeTask) {
 					lines.push(theme.fg("muted", "Task:"));
 					lines.push(theme.fg("dim", item.task));
 				}
 				if (shownToolCalls.length > 0) {
-					lines.push(theme.fg("muted", `Tool calls (${toolCalls.length}):`));
-					for (const toolCall of shownToolCalls)
-						lines.push(theme.fg("dim", `  → ${formatToolCall(toolCall)}`));
+					const failedCalls = toolCalls.filter(
+						(toolCall) => toolCall.status === "error",
+					).length;
+					lines.push(
+						theme.fg(
+							"muted",
+							`Tool calls (${toolCalls.length}${failedCalls ? `, ${failedCalls} failed` : ""}):`,
+						),
+					);
+					for (const toolCall of shownToolCalls) {
+						const status =
+							toolCall.status === "error"
+								? theme.fg("error", " ✗")
+								: toolCall.status === "running"
+									? theme.fg("warning", " ⏳")
+									: "";
+						const duration =
+							toolCall.durationMs !== undefined
+								? theme.fg("muted", ` ${formatDuration(toolCall.durationMs)}`)
+								: "";
+						lines.push(
+							`${theme.fg("dim", `  → ${formatToolCall(toolCall)}`)}${status}${duration}`,
+						);
+						if (expanded && toolCall.status === "error")
+							lines.push(
+								theme.fg(
+									"error",
+									`      ${toolCall.resultPreview || "(no output)"}`,
+								),
+							);
+					}
 					if (!expanded && toolCalls.length > shownToolCalls.length)
 						lines.push(
 							theme.fg(
@@ -683,10 +2111,53 @@ export default function (pi: ExtensionAPI) {
 				}
 				if (expanded) lines.push(theme.fg("muted", "Output:"));
 				lines.push(failed ? theme.fg("error", shownOutput) : shownOutput);
+				if (running && item.lastToolResult) {
+					const last = item.lastToolResult;
+					lines.push(
+						theme.fg(
+							last.isError ? "error" : "dim",
+							`← ${last.toolName} ${last.isError ? "✗" : "✓"} ${last.preview}`,
+						),
+					);
+				}
+				if (running && item.runningTools?.length)
+					lines.push(
+						theme.fg("warning", `⚙ running ${item.runningTools.join(", ")}...`),
+					);
 				if (expanded && item.stderr) {
 					lines.push(theme.fg("muted", "stderr:"));
 					lines.push(theme.fg("error", item.stderr));
 				}
+				if (item.structuredOutput !== undefined)
+					lines.push(theme.fg("dim", "{} structured output matches schema"));
+				if (item.changes) {
+					const count = item.changes.files.length;
+					lines.push(
+						theme.fg(
+							"accent",
+							count > 0
+								? `⎇ ${count} file${count === 1 ? "" : "s"} changed in worktree (not applied)`
+								: "⎇ no worktree changes",
+						),
+					);
+					if (expanded) {
+						for (const file of item.changes.files)
+							lines.push(theme.fg("dim", `  ${file}`));
+						if (item.changes.patchFile)
+							lines.push(theme.fg("dim", `Patch: ${item.changes.patchFile}`));
+					}
+				}
+				if (expanded && item.attemptErrors?.length) {
+					lines.push(theme.fg("muted", "Earlier attempts:"));
+					item.attemptErrors.forEach((error, attempt) => {
+						lines.push(theme.fg("dim", `  ${attempt + 1}. ${error}`));
+					});
+				}
+				if (expanded && item.sessionFile) {
+					lines.push(theme.fg("dim", `Session: ${item.sessionFile}`));
+				}
+				if (expanded && item.runId)
+					lines.push(theme.fg("dim", `Run: ${item.runId}`));
 				if (expanded && item.malformedJsonLines) {
 					lines.push(
 						theme.fg(
@@ -709,24 +2180,214 @@ export default function (pi: ExtensionAPI) {
 				return new Text(renderOne(details.results[0], 0, expanded), 0, 0);
 			}
 
+			if (details.mode === "chain" && details.steps) {
+				const steps = details.steps;
+				const completed = steps.filter(
+					(step) => step.status === "completed",
+				).length;
+				const failedStep = steps.find((step) => step.status === "failed");
+				const runningStep = steps.some((step) => step.status === "running");
+				const icon = runningStep
+					? theme.fg("warning", "⏳")
+					: failedStep
+						? theme.fg("error", "✗")
+						: theme.fg("success", "✓");
+				const lines = [
+					`${icon} ${theme.fg("toolTitle", theme.bold("chain "))}${theme.fg("accent", `${completed}/${steps.length} steps`)}${failedStep ? theme.fg("error", `, stopped at ${failedStep.agent}`) : ""}`,
+				];
+				for (let i = 0; i < steps.length; i++) {
+					lines.push("");
+					const item = details.results[i];
+					if (item) {
+						lines.push(renderOne(item, i, expanded));
+						continue;
+					}
+					lines.push(
+						`${theme.fg("muted", `─── ${i + 1}. `)}${theme.fg("dim", steps[i].agent)} ${theme.fg("muted", `(${steps[i].status})`)}`,
+					);
+				}
+				return new Text(lines.join("\n"), 0, 0);
+			}
+
+			const pending = details.results.filter((item) => item.pending).length;
 			const running = details.results.filter(
-				(item) => item.exitCode === -1,
+				(item) => item.exitCode === -1 && !item.pending,
 			).length;
 			const failed = details.results.filter(isFailed).length;
-			const done = details.results.length - running;
-			const icon = running
-				? theme.fg("warning", "⏳")
-				: failed > 0
-					? theme.fg("warning", "◐")
-					: theme.fg("success", "✓");
+			const done = details.results.length - running - pending;
+			const icon =
+				running || pending
+					? theme.fg("warning", "⏳")
+					: failed > 0
+						? theme.fg("warning", "◐")
+						: theme.fg("success", "✓");
+			const title = details.mode === "dag" ? "dag " : "parallel ";
 			const lines = [
-				`${icon} ${theme.fg("toolTitle", theme.bold("parallel "))}${theme.fg("accent", `${done}/${details.results.length} done`)}${failed ? theme.fg("warning", `, ${failed} failed`) : ""}${running ? theme.fg("muted", `, ${running} running`) : ""}`,
+				`${icon} ${theme.fg("toolTitle", theme.bold(title))}${theme.fg("accent", `${done}/${details.results.length} done`)}${failed ? theme.fg("warning", `, ${failed} failed`) : ""}${running ? theme.fg("muted", `, ${running} running`) : ""}${pending ? theme.fg("muted", `, ${pending} pending`) : ""}`,
 			];
 			for (let i = 0; i < details.results.length; i++) {
 				lines.push("");
 				lines.push(renderOne(details.results[i], i, expanded));
 			}
+			if (details.synthesis) {
+				lines.push("");
+				lines.push(theme.fg("muted", "Synthesis:"));
+				lines.push(
+					renderOne(details.synthesis, details.results.length, expanded),
+				);
+			}
 			return new Text(lines.join("\n"), 0, 0);
 		},
 	});
+
+	pi.registerTool({
+		name: "subagent_status",
+		label: "Subagent Status",
+		description:
+			"Show the status and usage of background subagent jobs started with async: true. Provide id for one job or omit it to list all jobs.",
+		parameters: JobStatusParams,
+		async execute(_toolCallId, params) {
+			if (params.id && !jobs.get(params.id)) return jobNotFound(params.id);
+			const selected = params.id
+				? [jobs.get(params.id) as SubagentJob]
+				: jobs.list();
+			const text =
+				selected
+					.map((job) =>
+						job.status === "running" && job.output
+							? `${formatJobLine(job)}\n  ${job.output.split("\n")[0]}`
+							: formatJobLine(job),
+					)
+					.join("\n") || "No background subagent jobs.";
+			return {
+				content: [{ type: "text", text }],
+				details: undefined,
+			};
+		},
+	});
+
+	pi.registerTool({
+		name: "subagent_result",
+		label: "Subagent Result",
+		description:
+			"Collect the output of a background subagent job. Set wait to block until it finishes; otherwise a running job only reports its status.",
+		parameters: JobResultParams,
+		async execute(_toolCallId, params, signal) {
+			const job = jobs.get(params.id);
+			if (!job) return jobNotFound(params.id);
+			if (job.status === "running" && params.wait) {
+				await new Promise<void>((resolve) => {
+					if (signal?.aborted) return resolve();
+					signal?.addEventListener("abort", () => resolve(), { once: true });
+					void job.done.then(resolve);
+				});
+			}
+			if (job.status === "running") {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `${formatJobLine(job)}\n\nJob is still running. Call subagent_result with wait: true to block until it finishes.`,
+						},
+					],
+					details: job.details,
+				};
+			}
+			return {
+				isError: job.status !== "completed",
+				content: [
+					{
+						type: "text",
+						text: `${formatJobLine(job)}\n\n${job.output || "(no output)"}`,
+					},
+				],
+				details: job.details,
+			};
+		},
+	});
+
+	pi.registerTool({
+		name: "subagent_cancel",
+		label: "Subagent Cancel",
+		description: "Cancel a running background subagent job.",
+		parameters: JobIdParams,
+		async execute(_toolCallId, params) {
+			const job = jobs.get(params.id);
+			if (!job) return jobNotFound(params.id);
+			if (!jobs.cancel(params.id)) {
+				return {
+					isError: true,
+					content: [
+						{
+							type: "text",
+							text: `Subagent job ${job.id} is not running (${job.status}).`,
+						},
+					],
+					details: undefined,
+				};
+			}
+			await job.done;
+			return {
+				content: [{ type: "text", text: `Cancelled subagent job ${job.id}.` }],
+				details: undefined,
+			};
+		},
+	});
+
+	pi.registerCommand("subagent-open", {
+		description:
+			"Open a persisted subagent transcript from the current branch: /subagent-open <n>",
+		handler: async (args, ctx) => {
+			const sessions = collectChildSessions(ctx).filter((session) =>
+				fs.existsSync(session.sessionFile),
+			);
+			if (sessions.length === 0) {
+				ctx.ui.notify(
+					"No persisted subagent sessions on this branch. Run subagent with persist: true or start pi with --subagent-sessions.",
+					"info",
+				);
+				return;
+			}
+			const labels = sessions.map((session, index) => {
+				const task =
+					session.task.length > 60
+						? `${session.task.slice(0, 60)}...`
+						: session.task;
+				return `${index + 1}. ${session.agent}: ${task}`;
+			});
+			let index = Number.parseInt(args.trim(), 10) - 1;
+			if (Number.isNaN(index) && ctx.hasUI) {
+				const choice = await ctx.ui.select("Open subagent session", labels);
+				if (!choice) return;
+				index = labels.indexOf(choice);
+			}
+			const selected = sessions[index];
+			if (!selected) {
+				ctx.ui.notify(
+					`Usage: /subagent-open <n>\n\n${labels.join("\n")}`,
+					"info",
+				);
+				return;
+			}
+			await ctx.switchSession(selected.sessionFile);
+		},
+	});
+
+	pi.registerCommand("subagent-jobs", {
+		description: "Show running and finished background subagent jobs",
+		handler: async (_args, ctx) => {
+			if (!ctx.hasUI) {
+				ctx.ui.notify(
+					jobs.list().map(formatJobLine).join("\n") ||
+						"No background subagent jobs.",
+					"info",
+				);
+				return;
+			}
+
+			await ctx.ui.custom<void>((_tui, theme, _kb, done) => {
+				return new SubagentJobsComponent(jobs.list(), theme, () => done());
+			});
+		},
+	});
 }
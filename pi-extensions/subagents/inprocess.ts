@@ -0,0 +1,124 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Api, ImageContent, Model } from "@earendil-works/pi-ai";
+import {
+	type AgentSession,
+	AuthStorage,
+	createAgentSession,
+	DefaultResourceLoader,
+	getAgentDir,
+	ModelRegistry,
+	SessionManager,
+} from "@earendil-works/pi-coding-agent";
+import type { ThinkingLevel } from "./agents.js";
+import { createRunCollector } from "./collector.js";
+import type { RunSubagentOptions, RunSubagentResult } from "./runner.js";
+
+function findModel(
+	registry: ModelRegistry,
+	ref: string,
+): Model<Api> | undefined {
+	const slash = ref.indexOf("/");
+	if (slash !== -1) {
+		const model = registry.find(ref.slice(0, slash), ref.slice(slash + 1));
+		if (model) return model;
+	}
+	return registry.getAvailable().find((model) => model.id === ref);
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+};
+
+function readImage(file: string): ImageContent {
+	return {
+		type: "image",
+		mimeType: IMAGE_MIME_TYPES[path.extname(file).toLowerCase()] ?? "image/png",
+		data: fs.readFileSync(file).toString("base64"),
+	};
+}
+
+/**
+ * Runs the child as an agent session inside this process, which skips process
+ * startup and receives events as objects instead of JSONL. Returns undefined
+ * for runs only a separate process can honour: custom env or CLI flags, the
+ * Gondolin sandbox, a model reference only the CLI can resolve, or a cwd other
+ * than this process's, since extensions such as tool-overrides.ts bind their
+ * tools to process.cwd() when loaded.
+ */
+export async function runSubagentInProcess(
+	options: RunSubagentOptions,
+): Promise<RunSubagentResult | undefined> {
+	if (options.env || options.flags?.length || options.sandbox) return undefined;
+	if (path.resolve(options.cwd) !== process.cwd()) return undefined;
+	const authStorage = AuthStorage.create();
+	const modelRegistry = ModelRegistry.create(authStorage);
+	const model = options.model
+		? findModel(modelRegistry, options.model)
+		: undefined;
+	if (options.model && !model) return undefined;
+
+	let session: AgentSession | undefined;
+	let unsubscribe: (() => void) | undefined;
+	const collector = createRunCollector(options, () => {
+		void session?.abort();
+	});
+	let exitCode = 0;
+	let stderr = "";
+	try {
+		const resourceLoader = new DefaultResourceLoader({
+			cwd: options.cwd,
+			agentDir: getAgentDir(),
+			appendSystemPrompt: options.systemPrompt.trim()
+				? [options.systemPrompt]
+				: undefined,
+		});
+		await resourceLoader.reload();
+		({ session } = await createAgentSession({
+			cwd: options.cwd,
+			authStorage,
+			modelRegistry,
+			model,
+			thinkingLevel: options.thinking as ThinkingLevel | undefined,
+			tools: options.tools?.length ? options.tools : undefined,
+			resourceLoader,
+			sessionManager: options.sessionFile
+				? SessionManager.open(options.sessionFile)
+				: SessionManager.inMemory(options.cwd),
+		}));
+		const active = session;
+		unsubscribe = active.subscribe((event) => collector.handleEvent(event));
+		await active.bindExtensions({
+			onError: (error) => {
+				stderr += `Extension error (${error.extensionPath}): ${error.error}\n`;
+			},
+		});
+		if (!collector.stopped)
+			await active.prompt(options.task, {
+				images: options.images?.map(readImage),
+			});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		collector.fail(message);
+		stderr += message;
+		exitCode = 1;
+	} finally {
+		collector.finish();
+		unsubscribe?.();
+		session?.dispose();
+	}
+
+	if (collector.aborted) {
+		throw new Error("Subagent aborted");
+	}
+
+	return collector.result(exitCode, {
+		stderr,
+		malformedJsonLines: 0,
+		runner: "in-process",
+	});
+}
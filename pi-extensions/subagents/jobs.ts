@@ -0,0 +1,227 @@
+import { randomUUID } from "node:crypto";
+import type { Theme } from "@earendil-works/pi-coding-agent";
+import { matchesKey, truncateToWidth } from "@earendil-works/pi-tui";
+import {
+	formatUsage,
+	type SubagentDetails,
+	type SubagentMode,
+	type SubagentToolResult,
+	sumUsage,
+} from "./results.js";
+
+export type SubagentJobStatus =
+	| "running"
+	| "completed"
+	| "failed"
+	| "cancelled";
+
+export interface SubagentJob {
+	id: string;
+	mode: SubagentMode;
+	label: string;
+	status: SubagentJobStatus;
+	startedAt: number;
+	finishedAt?: number;
+	/** Latest details, tagged with the job id so polls are counted once in usage. */
+	details: SubagentDetails;
+	output: string;
+	controller: AbortController;
+	done: Promise<void>;
+}
+
+export type SubagentJobRun = (
+	signal: AbortSignal,
+	onUpdate: (partial: SubagentToolResult) => void,
+) => Promise<SubagentToolResult>;
+
+function resultText(result: SubagentToolResult): string {
+	return result.content
+		.map((part) => part.text)
+		.join("\n")
+		.trim();
+}
+
+function formatElapsed(job: SubagentJob): string {
+	const seconds = Math.round(
+		((job.finishedAt ?? Date.now()) - job.startedAt) / 1000,
+	);
+	if (seconds < 60) return `${seconds}s`;
+	return `${Math.floor(seconds / 60)}m${(seconds % 60).toString().padStart(2, "0")}s`;
+}
+
+function formatJobStats(job: SubagentJob): string {
+	const usage = formatUsage(sumUsage(job.details.results), undefined);
+	return [formatElapsed(job), usage].filter(Boolean).join(" · ");
+}
+
+export function formatJobLine(job: SubagentJob): string {
+	return `${job.id} · ${job.status} · ${job.label} · ${formatJobStats(job)}`;
+}
+
+/**
+ * Session-scoped registry of background subagent runs.
+ *
+ * Each job owns an AbortController so the child processes outlive the tool call
+ * that started them and can be cancelled later via subagent_cancel or on shutdown.
+ */
+export class SubagentJobRegistry {
+	private jobs = new Map<string, SubagentJob>();
+
+	start(
+		mode: SubagentMode,
+		label: string,
+		run: SubagentJobRun,
+		onFinish?: (job: SubagentJob) => void,
+	): SubagentJob {
+		const controller = new AbortController();
+		// Unique across reloads, since the usage ledger keys finished jobs by id.
+		const id = `job-${randomUUID().slice(0, 8)}`;
+		const job: SubagentJob = {
+			id,
+			mode,
+			label,
+			status: "running",
+			startedAt: Date.now(),
+			details: { mode, results: [], jobId: id },
+			output: "",
+			controller,
+			done: Promise.resolve(),
+		};
+		job.done = run(controller.signal, (partial) => {
+			job.details = { ...partial.details, jobId: id };
+			job.output = resultText(partial);
+		})
+			.then((result) => {
+				job.details = { ...result.details, jobId: id };
+				job.output = resultText(result);
+				job.status = controller.signal.aborted
+					? "cancelled"
+					: result.isError
+						? "failed"
+						: "completed";
+			})
+			.catch((error: unknown) => {
+				job.output =
+					error instanceof Error ? error.message : "Subagent job failed";
+				job.status = controller.signal.aborted ? "cancelled" : "failed";
+			})
+			.finally(() => {
+				job.finishedAt = Date.now();
+				onFinish?.(job);
+			});
+		this.jobs.set(job.id, job);
+		return job;
+	}
+
+	get(id: string): SubagentJob | undefined {
+		return this.jobs.get(id);
+	}
+
+	list(): SubagentJob[] {
+		return [...this.jobs.values()];
+	}
+
+	cancel(id: string): boolean {
+		const job = this.jobs.get(id);
+		if (job?.status !== "running") return false;
+		job.controller.abort();
+		return true;
+	}
+
+	async cancelAll(): Promise<void> {
+		const running = this.list().filter((job) => job.status === "running");
+		for (const job of running) job.controller.abort();
+		await Promise.all(running.map((job) => job.done));
+	}
+}
+
+/**
+ * UI component for the /subagent-jobs command
+ */
+export class SubagentJobsComponent {
+	private jobs: SubagentJob[];
+	private theme: Theme;
+	private onClose: () => void;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+
+	constructor(jobs: SubagentJob[], theme: Theme, onClose: () => void) {
+		this.jobs = jobs;
+		this.theme = theme;
+		this.onClose = onClose;
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c")) {
+			this.onClose();
+		}
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) {
+			return this.cachedLines;
+		}
+
+		const lines: string[] = [];
+		const th = this.theme;
+
+		lines.push("");
+		const title = th.fg("accent", " Subagent jobs ");
+		const headerLine =
+			th.fg("borderMuted", "─".repeat(3)) +
+			title +
+			th.fg("borderMuted", "─".repeat(Math.max(0, width - 18)));
+		lines.push(truncateToWidth(headerLine, width));
+		lines.push("");
+
+		if (this.jobs.length === 0) {
+			lines.push(
+				truncateToWidth(
+					`  ${th.fg("dim", "No background jobs. Use subagent with async: true.")}`,
+					width,
+				),
+			);
+			lines.push("");
+		}
+
+		const sections: Array<[string, SubagentJob[]]> = [
+			["Running", this.jobs.filter((job) => job.status === "running")],
+			["Finished", this.jobs.filter((job) => job.status !== "running")],
+		];
+		for (const [heading, jobs] of sections) {
+			if (jobs.length === 0) continue;
+			lines.push(truncateToWidth(`  ${th.fg("muted", heading)}`, width));
+			for (const job of jobs) {
+				const icon =
+					job.status === "running"
+						? th.fg("warning", "⏳")
+						: job.status === "completed"
+							? th.fg("success", "✓")
+							: job.status === "cancelled"
+								? th.fg("muted", "⊘")
+								: th.fg("error", "✗");
+				lines.push(
+					truncateToWidth(
+						`  ${icon} ${th.fg("accent", job.id)} ${th.fg("text", job.label)} ${th.fg("dim", formatJobStats(job))}`,
+						width,
+					),
+				);
+			}
+			lines.push("");
+		}
+
+		lines.push(
+			truncateToWidth(`  ${th.fg("dim", "Press Escape to close")}`, width),
+		);
+		lines.push("");
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
@@ -0,0 +1,143 @@
+export interface SubagentLimits {
+	/** Most tasks accepted by one parallel or dependency graph call. */
+	maxParallelTasks: number;
+	/** Most subagents one call runs at the same time. */
+	concurrency: number;
+	/** Bytes of each subagent's output passed back to the parent model. */
+	outputCap: number;
+	/**
+	 * Subagents allowed to run at once per model, shared by all calls and
+	 * background jobs. Keys are `provider/id`, a bare model id or a provider.
+	 */
+	modelConcurrency: Record<string, number>;
+}
+
+export const DEFAULT_LIMITS: SubagentLimits = {
+	maxParallelTasks: 8,
+	concurrency: 4,
+	outputCap: 50 * 1024,
+	modelConcurrency: {},
+};
+
+export function positiveInteger(value: unknown): number | undefined {
+	const number = typeof value === "string" ? Number(value.trim()) : value;
+	return typeof number === "number" && Number.isInteger(number) && number > 0
+		? number
+		: undefined;
+}
+
+const SIZE_UNITS: Record<string, number> = {
+	"": 1,
+	b: 1,
+	k: 1024,
+	kb: 1024,
+	m: 1024 * 1024,
+	mb: 1024 * 1024,
+};
+
+/** Parses a byte count such as 51200, "50k" or "1mb". */
+export function parseByteSize(value: unknown): number | undefined {
+	if (typeof value === "number") return positiveInteger(value);
+	if (typeof value !== "string") return undefined;
+	const match = value.trim().match(/^(\d+)\s*([a-z]*)$/i);
+	const unit = match ? SIZE_UNITS[match[2].toLowerCase()] : undefined;
+	if (!match || !unit) return undefined;
+	return positiveInteger(Number(match[1]) * unit);
+}
+
+/** Later sources win: defaults, then the settings file, then CLI flags. */
+export function resolveLimits(
+	...sources: Partial<SubagentLimits>[]
+): SubagentLimits {
+	const limits = { ...DEFAULT_LIMITS };
+	for (const source of sources) {
+		limits.maxParallelTasks =
+			source.maxParallelTasks ?? limits.maxParallelTasks;
+		limits.concurrency = source.concurrency ?? limits.concurrency;
+		limits.outputCap = source.outputCap ?? limits.outputCap;
+		limits.modelConcurrency = {
+			...limits.modelConcurrency,
+			...source.modelConcurrency,
+		};
+	}
+	return limits;
+}
+
+/** Applies per-call overrides, which may only tighten the configured limits. */
+export function limitsForCall(
+	limits: SubagentLimits,
+	overrides: { concurrency?: number; outputCap?: number },
+): SubagentLimits {
+	return {
+		...limits,
+		concurrency: Math.min(
+			limits.concurrency,
+			overrides.concurrency ?? limits.concurrency,
+		),
+		outputCap: Math.min(
+			limits.outputCap,
+			overrides.outputCap ?? limits.outputCap,
+		),
+	};
+}
+
+function modelLimitKey(
+	model: string,
+	limits: Record<string, number>,
+): string | undefined {
+	const slash = model.indexOf("/");
+	const candidates =
+		slash === -1
+			? [model]
+			: [model, model.slice(slash + 1), model.slice(0, slash)];
+	return candidates.find((key) => limits[key] !== undefined);
+}
+
+/**
+ * Counting semaphore per model key. A provider key limits every model of that
+ * provider together, which is usually where rate limits apply.
+ */
+export class ModelConcurrencyLimiter {
+	private active = new Map<string, number>();
+	private waiting = new Map<string, Array<() => void>>();
+
+	/**
+	 * Waits for a free slot and returns its release function. Runs without a
+	 * matching limit, or whose signal aborts while waiting, get no slot.
+	 */
+	async acquire(
+		model: string | undefined,
+		limits: Record<string, number>,
+		signal: AbortSignal | undefined,
+	): Promise<() => void> {
+		const key = model ? modelLimitKey(model, limits) : undefined;
+		if (!key) return () => {};
+		const limit = limits[key];
+		while ((this.active.get(key) ?? 0) >= limit) {
+			if (signal?.aborted) return () => {};
+			await new Promise<void>((resolve) => {
+				const queue = this.waiting.get(key) ?? [];
+				const wake = () => {
+					signal?.removeEventListener("abort", onAbort);
+					resolve();
+				};
+				const onAbort = () => {
+					const index = queue.indexOf(wake);
+					if (index !== -1) queue.splice(index, 1);
+					resolve();
+				};
+				queue.push(wake);
+				this.waiting.set(key, queue);
+				signal?.addEventListener("abort", onAbort, { once: true });
+			});
+		}
+		this.active.set(key, (this.active.get(key) ?? 0) + 1);
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			this.active.set(key, (this.active.get(key) ?? 1) - 1);
+			this.waiting.get(key)?.shift()?.();
+		};
+	}
+}
@@ -0,0 +1,358 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type {
+	ExtensionCommandContext,
+	Theme,
+} from "@earendil-works/pi-coding-agent";
+import { matchesKey, truncateToWidth } from "@earendil-works/pi-tui";
+import { type AgentConfig, discoverAgents, formatAgentFile } from "./agents.js";
+
+export type AgentManagerAction =
+	| { type: "create" }
+	| { type: "duplicate"; agent: AgentConfig }
+	| { type: "delete"; agent: AgentConfig };
+
+const SOURCE_ORDER: AgentConfig["source"][] = ["project", "user", "builtin"];
+const SOURCE_HEADINGS: Record<AgentConfig["source"], string> = {
+	project: "Project",
+	user: "User",
+	builtin: "Builtin",
+};
+const PROMPT_PAGE_SIZE = 20;
+const AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+function agentTemplate(name: string, description: string): AgentConfig {
+	const title = name.charAt(0).toUpperCase() + name.slice(1);
+	return {
+		name,
+		description,
+		tools: ["read", "grep", "find", "ls"],
+		models: ["auto-fast"],
+		source: "user",
+		systemPrompt: `You are ${title}, a focused subagent.
+
+Rules:
+- Stay within the task you are given.
+- Read the relevant code before acting.
+- Report what you could not verify.
+
+Output format:
+1) Result
+2) Relevant files with why each matters
+3) Open questions`,
+	};
+}
+
+/**
+ * UI component for the /subagents command: browse agents by source and read
+ * their prompts. Actions that need dialogs are handed back through onAction.
+ */
+export class AgentManagerComponent {
+	private agents: AgentConfig[];
+	private theme: Theme;
+	private onAction: (action: AgentManagerAction | undefined) => void;
+	private requestRender: () => void;
+	private selected = 0;
+	private viewing = false;
+	private scroll = 0;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+
+	constructor(
+		agents: AgentConfig[],
+		theme: Theme,
+		onAction: (action: AgentManagerAction | undefined) => void,
+		requestRender: () => void,
+		selectedName?: string,
+	) {
+		this.agents = SOURCE_ORDER.flatMap((source) =>
+			agents.filter((agent) => agent.source === source),
+		);
+		this.theme = theme;
+		this.onAction = onAction;
+		this.requestRender = requestRender;
+		this.selected = Math.max(
+			0,
+			this.agents.findIndex((agent) => agent.name === selectedName),
+		);
+	}
+
+	handleInput(data: string): void {
+		const agent = this.agents[this.selected];
+		if (this.viewing) {
+			const promptLines = agent?.systemPrompt.split("\n").length ?? 0;
+			const maxScroll = Math.max(0, promptLines - PROMPT_PAGE_SIZE);
+			if (matchesKey(data, "escape") || matchesKey(data, "left"))
+				this.viewing = false;
+			else if (matchesKey(data, "up") || matchesKey(data, "k"))
+				this.scroll = Math.max(0, this.scroll - 1);
+			else if (matchesKey(data, "down") || matchesKey(data, "j"))
+				this.scroll = Math.min(maxScroll, this.scroll + 1);
+			else if (matchesKey(data, "pageUp"))
+				this.scroll = Math.max(0, this.scroll - PROMPT_PAGE_SIZE);
+			else if (matchesKey(data, "pageDown"))
+				this.scroll = Math.min(maxScroll, this.scroll + PROMPT_PAGE_SIZE);
+			else return;
+			this.refresh();
+			return;
+		}
+
+		if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c")) {
+			this.onAction(undefined);
+		} else if (matchesKey(data, "up") || matchesKey(data, "k")) {
+			this.selected = Math.max(0, this.selected - 1);
+			this.refresh();
+		} else if (matchesKey(data, "down") || matchesKey(data, "j")) {
+			this.selected = Math.min(this.agents.length - 1, this.selected + 1);
+			this.refresh();
+		} else if (
+			(matchesKey(data, "enter") || matchesKey(data, "right")) &&
+			agent
+		) {
+			this.viewing = true;
+			this.scroll = 0;
+			this.refresh();
+		} else if (matchesKey(data, "n")) {
+			this.onAction({ type: "create" });
+		} else if (matchesKey(data, "c") && agent && agent.source !== "project") {
+			this.onAction({ type: "duplicate", agent });
+		} else if (
+			(matchesKey(data, "d") || matchesKey(data, "delete")) &&
+			agent &&
+			agent.source !== "builtin"
+		) {
+			this.onAction({ type: "delete", agent });
+		}
+	}
+
+	private refresh(): void {
+		this.invalidate();
+		this.requestRender();
+	}
+
+	private renderList(width: number, lines: string[]): void {
+		const th = this.theme;
+		if (this.agents.length === 0) {
+			lines.push(
+				truncateToWidth(`  ${th.fg("dim", "No agents found.")}`, width),
+			);
+			lines.push("");
+		}
+		for (const source of SOURCE_ORDER) {
+			const entries = this.agents
+				.map((agent, index) => ({ agent, index }))
+				.filter(({ agent }) => agent.source === source);
+			if (entries.length === 0) continue;
+			lines.push(
+				truncateToWidth(`  ${th.fg("muted", SOURCE_HEADINGS[source])}`, width),
+			);
+			for (const { agent, index } of entries) {
+				const isSelected = index === this.selected;
+				const marker = isSelected ? th.fg("accent", "▸") : " ";
+				const name = isSelected
+					? th.fg("accent", th.bold(agent.name))
+					: th.fg("text", agent.name);
+				lines.push(
+					truncateToWidth(
+						`  ${marker} ${name} ${th.fg("dim", agent.description)}`,
+						width,
+					),
+				);
+			}
+			lines.push("");
+		}
+		const agent = this.agents[this.selected];
+		const hints = [
+			"↑↓ select",
+			"enter view prompt",
+			"n new",
+			agent && agent.source !== "project" ? "c copy to project" : undefined,
+			agent && agent.source !== "builtin" ? "d delete" : undefined,
+			"esc close",
+		].filter(Boolean);
+		lines.push(truncateToWidth(`  ${th.fg("dim", hints.join(" · "))}`, width));
+	}
+
+	private renderPrompt(agent: AgentConfig, width: number, lines: string[]) {
+		const th = this.theme;
+		const details = [
+			`source: ${agent.source}`,
+			agent.filePath ? `file: ${agent.filePath}` : undefined,
+			`tools: ${agent.tools?.join(", ") ?? "default"}`,
+			agent.models ? `model: ${agent.models.join(" → ")}` : undefined,
+			agent.thinking ? `thinking: ${agent.thinking}` : undefined,
+			agent.sandbox !== undefined
+				? `sandbox: ${agent.sandbox ? "on" : "off"}`
+				: undefined,
+			agent.runner ? `runner: ${agent.runner}` : undefined,
+		].filter(Boolean);
+		lines.push(
+			truncateToWidth(`  ${th.fg("accent", th.bold(agent.name))}`, width),
+		);
+		lines.push(truncateToWidth(`  ${th.fg("text", agent.description)}`, width));
+		for (const detail of details)
+			lines.push(truncateToWidth(`  ${th.fg("dim", detail ?? "")}`, width));
+		lines.push("");
+		const promptLines = agent.systemPrompt.split("\n");
+		for (const line of promptLines.slice(
+			this.scroll,
+			this.scroll + PROMPT_PAGE_SIZE,
+		))
+			lines.push(truncateToWidth(`  ${line}`, width));
+		lines.push("");
+		const position =
+			promptLines.length > PROMPT_PAGE_SIZE
+				? `lines ${this.scroll + 1}-${Math.min(promptLines.length, this.scroll + PROMPT_PAGE_SIZE)} of ${promptLines.length} · `
+				: "";
+		lines.push(
+			truncateToWidth(
+				`  ${th.fg("dim", `${position}↑↓ scroll · esc back`)}`,
+				width,
+			),
+		);
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) {
+			return this.cachedLines;
+		}
+
+		const lines: string[] = [];
+		const th = this.theme;
+
+		lines.push("");
+		const title = th.fg("accent", " Subagents ");
+		const headerLine =
+			th.fg("borderMuted", "─".repeat(3)) +
+			title +
+			th.fg("borderMuted", "─".repeat(Math.max(0, width - 14)));
+		lines.push(truncateToWidth(headerLine, width));
+		lines.push("");
+
+		const agent = this.agents[this.selected];
+		if (this.viewing && agent) this.renderPrompt(agent, width, lines);
+		else this.renderList(width, lines);
+		lines.push("");
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
+
+function projectAgentsDir(ctx: ExtensionCommandContext): string {
+	return (
+		discoverAgents(ctx.cwd).projectAgentsDir ??
+		path.join(ctx.cwd, ".pi", "agents")
+	);
+}
+
+/** Writes an agent file, asking before replacing an existing one. */
+async function writeAgentFile(
+	ctx: ExtensionCommandContext,
+	file: string,
+	agent: AgentConfig,
+): Promise<boolean> {
+	if (
+		fs.existsSync(file) &&
+		!(await ctx.ui.confirm("Overwrite agent?", `${file} already exists.`))
+	)
+		return false;
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, formatAgentFile(agent), "utf-8");
+	ctx.ui.notify(`Wrote ${agent.name} to ${file}`, "info");
+	return true;
+}
+
+async function createAgent(
+	ctx: ExtensionCommandContext,
+): Promise<string | undefined> {
+	const scope = await ctx.ui.select("Create agent in", [
+		"project (.pi/agents)",
+		"user (~/.pi/agent/agents)",
+	]);
+	if (!scope) return undefined;
+	const name = (await ctx.ui.input("Agent name", "e.g. migrator"))?.trim();
+	if (!name) return undefined;
+	if (!AGENT_NAME_PATTERN.test(name)) {
+		ctx.ui.notify(
+			`Invalid agent name "${name}". Use letters, digits, - and _.`,
+			"error",
+		);
+		return undefined;
+	}
+	const description = (
+		await ctx.ui.input("Description", "When should the parent use this agent?")
+	)?.trim();
+	if (!description) return undefined;
+	const dir = scope.startsWith("project")
+		? projectAgentsDir(ctx)
+		: path.join(os.homedir(), ".pi", "agent", "agents");
+	const written = await writeAgentFile(
+		ctx,
+		path.join(dir, `${name}.md`),
+		agentTemplate(name, description),
+	);
+	return written ? name : undefined;
+}
+
+async function deleteAgent(
+	ctx: ExtensionCommandContext,
+	agent: AgentConfig,
+): Promise<void> {
+	if (!agent.filePath) return;
+	const confirmed = await ctx.ui.confirm(
+		"Delete agent?",
+		`Delete ${agent.name} (${agent.source}) at ${agent.filePath}?`,
+	);
+	if (!confirmed) return;
+	try {
+		fs.rmSync(agent.filePath);
+		ctx.ui.notify(`Deleted ${agent.filePath}`, "info");
+	} catch (error) {
+		ctx.ui.notify(
+			`Could not delete ${agent.filePath}: ${error instanceof Error ? error.message : String(error)}`,
+			"error",
+		);
+	}
+}
+
+/** Runs the manager until closed, re-reading agents from disk after each action. */
+export async function openAgentManager(
+	ctx: ExtensionCommandContext,
+): Promise<void> {
+	let selectedName: string | undefined;
+	while (true) {
+		const { agents } = discoverAgents(ctx.cwd);
+		const action = await ctx.ui.custom<AgentManagerAction | undefined>(
+			(tui, theme, _kb, done) =>
+				new AgentManagerComponent(
+					agents,
+					theme,
+					done,
+					() => tui.requestRender(),
+					selectedName,
+				),
+		);
+		if (!action) return;
+		if (action.type === "create") {
+			selectedName = (await createAgent(ctx)) ?? selectedName;
+		} else if (action.type === "duplicate") {
+			selectedName = action.agent.name;
+			await writeAgentFile(
+				ctx,
+				path.join(projectAgentsDir(ctx), `${action.agent.name}.md`),
+				action.agent,
+			);
+		} else {
+			selectedName = undefined;
+			await deleteAgent(ctx, action.agent);
+		}
+	}
+}
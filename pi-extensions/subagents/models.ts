@@ -0,0 +1,188 @@
+import type { Api, Model } from "@earendil-works/pi-ai";
+import { THINKING_LEVELS } from "./agents.js";
+
+interface ModelAlias {
+	exact: string[];
+	includes: string[];
+}
+
+const BUILTIN_ALIASES: Record<string, ModelAlias> = {
+	"auto-fast": {
+		exact: [
+			"gemini-3-flash-preview",
+			"claude-haiku-4-5",
+			"claude-haiku-4.5",
+			"gemini-2.5-flash",
+			"gpt-5.4-mini",
+		],
+		includes: ["haiku", "flash", "mini", "fast"],
+	},
+	"auto-smart": {
+		exact: [
+			"claude-opus-4-5",
+			"claude-opus-4.5",
+			"gpt-5.4",
+			"gemini-3-pro-preview",
+			"claude-sonnet-4-5",
+			"claude-sonnet-4.5",
+			"gemini-2.5-pro",
+		],
+		includes: ["opus", "sonnet", "pro"],
+	},
+};
+
+function modelRef(model: Model<Api>): string {
+	return `${model.provider}/${model.id}`;
+}
+
+/** Longest fallback chain an agent's model list expands to. */
+const MAX_MODEL_CHAIN = 4;
+
+function segments(value: string): string[] {
+	return value
+		.toLowerCase()
+		.split(/[-/.:]/)
+		.filter(Boolean);
+}
+
+/**
+ * True when every segment of the pattern is a whole segment of the model ref,
+ * so "mini" matches gpt-5-mini but not gemini-2.5-pro.
+ */
+function matchesSegments(model: Model<Api>, pattern: string): boolean {
+	const modelSegments = new Set(segments(modelRef(model)));
+	const patternSegments = segments(pattern);
+	return (
+		patternSegments.length > 0 &&
+		patternSegments.every((segment) => modelSegments.has(segment))
+	);
+}
+
+/** Available models matching an alias, exact ids first, then segment patterns. */
+function matchModels(models: Model<Api>[], alias: ModelAlias): Model<Api>[] {
+	const matches: Model<Api>[] = [];
+	for (const id of alias.exact) {
+		const lowerId = id.toLowerCase();
+		const match = models.find(
+			(model) =>
+				model.id.toLowerCase() === lowerId ||
+				modelRef(model).toLowerCase() === lowerId,
+		);
+		if (match) matches.push(match);
+	}
+	for (const pattern of alias.includes)
+		matches.push(...models.filter((model) => matchesSegments(model, pattern)));
+	return matches;
+}
+
+/**
+ * Expands an agent's model list into an ordered fallback chain of at most
+ * MAX_MODEL_CHAIN models. Aliases expand to the available models they match;
+ * plain entries are passed through for pi to resolve. An empty chain means
+ * "use pi's default model".
+ */
+export function resolveModelChain(
+	candidates: string[] | undefined,
+	models: Model<Api>[],
+	userAliases: Record<string, string[]>,
+): string[] {
+	const chain: string[] = [];
+	for (const candidate of candidates ?? []) {
+		const alias = Object.hasOwn(userAliases, candidate)
+			? { exact: userAliases[candidate], includes: userAliases[candidate] }
+			: Object.hasOwn(BUILTIN_ALIASES, candidate)
+				? BUILTIN_ALIASES[candidate]
+				: undefined;
+		const refs = alias ? matchModels(models, alias).map(modelRef) : [candidate];
+		for (const ref of refs) if (!chain.includes(ref)) chain.push(ref);
+	}
+	return chain.slice(0, MAX_MODEL_CHAIN);
+}
+
+export function isModelAlias(
+	name: string,
+	userAliases: Record<string, string[]>,
+): boolean {
+	return (
+		Object.hasOwn(userAliases, name) || Object.hasOwn(BUILTIN_ALIASES, name)
+	);
+}
+
+/** Undated ids (or ones ending in -latest) are preferred over dated snapshots. */
+function isUndatedId(id: string): boolean {
+	return id.endsWith("-latest") || !/-\d{8}$/.test(id);
+}
+
+function findExactModel(
+	reference: string,
+	models: Model<Api>[],
+): Model<Api> | undefined {
+	const lower = reference.trim().toLowerCase();
+	if (!lower) return undefined;
+	const canonical = models.filter(
+		(model) => modelRef(model).toLowerCase() === lower,
+	);
+	if (canonical.length > 0)
+		return canonical.length === 1 ? canonical[0] : undefined;
+	const byId = models.filter((model) => model.id.toLowerCase() === lower);
+	return byId.length === 1 ? byId[0] : undefined;
+}
+
+/** Exact reference, else the best partial match on id or name. */
+function matchModelPattern(
+	pattern: string,
+	models: Model<Api>[],
+): Model<Api> | undefined {
+	const exact = findExactModel(pattern, models);
+	if (exact) return exact;
+	const lower = pattern.toLowerCase();
+	const matches = models.filter(
+		(model) =>
+			model.id.toLowerCase().includes(lower) ||
+			model.name?.toLowerCase().includes(lower),
+	);
+	const undated = matches.filter((model) => isUndatedId(model.id));
+	const preferred = undated.length > 0 ? undated : matches;
+	return preferred.sort((a, b) => b.id.localeCompare(a.id))[0];
+}
+
+/** A pattern, optionally followed by `:<thinking level>` suffixes. */
+function parseModelPattern(
+	pattern: string,
+	models: Model<Api>[],
+): Model<Api> | undefined {
+	const match = matchModelPattern(pattern, models);
+	if (match) return match;
+	const colon = pattern.lastIndexOf(":");
+	if (colon === -1) return undefined;
+	const suffix = pattern.slice(colon + 1);
+	if (!THINKING_LEVELS.some((level) => level === suffix)) return undefined;
+	return parseModelPattern(pattern.slice(0, colon), models);
+}
+
+/**
+ * Whether the `--model` value names an available model under pi's CLI
+ * resolution: a `provider/` prefix narrows the search to that provider, then
+ * exact ids, partial id or name matches and a thinking suffix are accepted.
+ * An unknown id under a known provider, which pi passes through as a custom
+ * id, does not count.
+ */
+export function resolvesToModel(name: string, models: Model<Api>[]): boolean {
+	const providers = new Map(
+		models.map((model) => [model.provider.toLowerCase(), model.provider]),
+	);
+	const slash = name.indexOf("/");
+	const provider =
+		slash === -1
+			? undefined
+			: providers.get(name.slice(0, slash).toLowerCase());
+	if (
+		provider &&
+		parseModelPattern(
+			name.slice(slash + 1),
+			models.filter((model) => model.provider === provider),
+		)
+	)
+		return true;
+	return Boolean(parseModelPattern(name, models));
+}
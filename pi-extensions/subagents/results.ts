@@ -0,0 +1,208 @@
+import type { AgentConfig } from "./agents.js";
+import type {
+	SubagentRunner,
+	SubagentToolCall,
+	SubagentToolResultPreview,
+	UsageStats,
+} from "./runner.js";
+import type { WorktreeChanges } from "./worktree.js";
+
+export type AgentSource = AgentConfig["source"] | "adhoc" | "unknown";
+
+export type SubagentMode = "single" | "parallel" | "chain" | "dag";
+
+export type ChainStepStatus =
+	| "pending"
+	| "running"
+	| "completed"
+	| "failed"
+	| "skipped";
+
+export interface ChainStep {
+	agent: string;
+	status: ChainStepStatus;
+}
+
+export interface SubagentResult {
+	id?: string;
+	dependsOn?: string[];
+	agent: string;
+	agentSource?: AgentSource;
+	task: string;
+	model?: string;
+	exitCode: number;
+	stopReason?: string;
+	stderr?: string;
+	finalText: string;
+	/** Final message parsed and validated against the requested output schema. */
+	structuredOutput?: unknown;
+	toolCalls: SubagentToolCall[];
+	usage?: UsageStats;
+	malformedJsonLines?: number;
+	sessionFile?: string;
+	/** Id to pass as `resume` for a follow-up in the same child session. */
+	runId?: string;
+	/** Returned from the result cache instead of running the agent again. */
+	cached?: boolean;
+	/** Changes made in an isolated worktree, not applied to the parent checkout. */
+	changes?: WorktreeChanges;
+	attempts?: number;
+	attemptErrors?: string[];
+	/**
+	 * True when tools ran in the Gondolin sandbox, false when the agent opted
+	 * out while the parent is sandboxed, unset when no sandbox is in use.
+	 */
+	sandboxed?: boolean;
+	/** Backend that ran the child, after any fallback from in-process to spawn. */
+	runner?: SubagentRunner;
+	running?: boolean;
+	/** Live progress while running: streamed text, executing tools and the latest tool result. */
+	partialText?: string;
+	runningTools?: string[];
+	lastToolResult?: SubagentToolResultPreview;
+	pending?: boolean;
+	availableAgents?: string;
+}
+
+export interface SubagentDetails {
+	mode: SubagentMode;
+	results: SubagentResult[];
+	steps?: ChainStep[];
+	/** Aggregator run that merged parallel results, when synthesize was requested. */
+	synthesis?: SubagentResult;
+	jobId?: string;
+}
+
+export interface SubagentToolResult {
+	isError?: boolean;
+	content: Array<{ type: "text"; text: string }>;
+	details: SubagentDetails;
+}
+
+export function emptyUsage(): UsageStats {
+	return {
+		input: 0,
+		output: 0,
+		cacheRead: 0,
+		cacheWrite: 0,
+		cost: 0,
+		contextTokens: 0,
+		turns: 0,
+	};
+}
+
+export function sumUsageStats(stats: UsageStats[]): UsageStats {
+	const total = emptyUsage();
+	for (const usage of stats) {
+		total.input += usage.input;
+		total.output += usage.output;
+		total.cacheRead += usage.cacheRead;
+		total.cacheWrite += usage.cacheWrite;
+		total.cost += usage.cost;
+		total.turns += usage.turns;
+		total.contextTokens = Math.max(total.contextTokens, usage.contextTokens);
+	}
+	return total;
+}
+
+export function sumUsage(results: SubagentResult[]): UsageStats {
+	return sumUsageStats(
+		results.flatMap((result) => (result.usage ? [result.usage] : [])),
+	);
+}
+
+export function formatTokens(count: number): string {
+	if (count < 1000) return count.toString();
+	if (count < 10000) return `${(count / 1000).toFixed(1)}k`;
+	if (count < 1000000) return `${Math.round(count / 1000)}k`;
+	return `${(count / 1000000).toFixed(1)}M`;
+}
+
+export function formatUsage(
+	usage: UsageStats | undefined,
+	model: string | undefined,
+): string {
+	if (!usage) return model ?? "";
+	const parts: string[] = [];
+	if (usage.turns)
+		parts.push(`${usage.turns} turn${usage.turns === 1 ? "" : "s"}`);
+	if (usage.input) parts.push(`↑${formatTokens(usage.input)}`);
+	if (usage.output) parts.push(`↓${formatTokens(usage.output)}`);
+	if (usage.cacheRead) parts.push(`R${formatTokens(usage.cacheRead)}`);
+	if (usage.cacheWrite) parts.push(`W${formatTokens(usage.cacheWrite)}`);
+	if (usage.cost) parts.push(`$${usage.cost.toFixed(4)}`);
+	if (usage.contextTokens)
+		parts.push(`ctx:${formatTokens(usage.contextTokens)}`);
+	if (model) parts.push(model);
+	return parts.join(" ");
+}
+
+/** Stop reasons set by the runner when it cuts a child short on a configured limit. */
+export const LIMIT_STOP_REASONS = new Set(["timeout", "budget"]);
+
+export function isFailedStop(
+	exitCode: number,
+	stopReason: string | undefined,
+): boolean {
+	return (
+		exitCode !== 0 ||
+		stopReason === "error" ||
+		stopReason === "aborted" ||
+		stopReason === "invalid_output" ||
+		LIMIT_STOP_REASONS.has(stopReason ?? "")
+	);
+}
+
+export function isFailed(result: SubagentResult): boolean {
+	return (
+		result.exitCode !== -1 && isFailedStop(result.exitCode, result.stopReason)
+	);
+}
+
+export function statusLabel(result: SubagentResult): string {
+	if (result.pending) return "pending";
+	if (result.exitCode === -1 || result.running) return "running";
+	if (!isFailed(result)) return "completed";
+	if (result.stopReason === "timeout") return "timed out";
+	if (result.stopReason === "budget") return "over budget";
+	if (result.stopReason === "skipped") return "skipped";
+	if (result.stopReason === "invalid_output") return "invalid output";
+	return `failed${result.stopReason && result.stopReason !== "end" ? ` (${result.stopReason})` : ""}`;
+}
+
+function changesSummary(changes: WorktreeChanges): string {
+	if (changes.keptWorktree && changes.files.length === 0)
+		return [
+			`Worktree changes could not be collected: ${changes.error}`,
+			`The worktree is kept at ${changes.keptWorktree}. Inspect it there, then remove it with: git -C ${changes.repoRoot} worktree remove --force ${changes.keptWorktree}`,
+		].join("\n");
+	if (changes.files.length === 0)
+		return "Worktree changes: none (the subagent left the tree unchanged)";
+	const lines = [
+		`Worktree changes (${changes.files.length} file${changes.files.length === 1 ? "" : "s"}, not applied):`,
+		...changes.files.map((file) => `- ${file}`),
+	];
+	if (changes.patchFile)
+		lines.push(
+			"",
+			`Patch against ${changes.baseCommit.slice(0, 12)}: ${changes.patchFile}`,
+			`Apply with: git -C ${changes.repoRoot} apply ${changes.patchFile}`,
+		);
+	if (changes.patch) lines.push("", "```diff", changes.patch.trimEnd(), "```");
+	else if (changes.keptWorktree)
+		lines.push(
+			"",
+			`The ${Math.round(changes.patchBytes / 1024)} KB patch could not be saved (${changes.error}). The worktree is kept at ${changes.keptWorktree}; remove it with: git -C ${changes.repoRoot} worktree remove --force ${changes.keptWorktree}`,
+		);
+	return lines.join("\n");
+}
+
+export function resultText(result: SubagentResult): string {
+	return result.finalText || result.stderr || "(no output)";
+}
+
+export function resultOutput(result: SubagentResult): string {
+	const output = resultText(result);
+	if (!result.changes) return output;
+	return `${output}\n\n${changesSummary(result.changes)}`;
+}
@@ -0,0 +1,54 @@
+import type { RunSubagentResult } from "./runner.js";
+
+export const RETRYABLE_FAILURES = ["spawn", "provider", "malformed"] as const;
+
+export type RetryableFailure = (typeof RETRYABLE_FAILURES)[number];
+
+export interface RetryPolicy {
+	maxAttempts: number;
+	backoffMs: number;
+	on: RetryableFailure[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 1,
+	backoffMs: 1000,
+	on: [...RETRYABLE_FAILURES],
+};
+
+/** A child printing this many unparseable lines is treated as broken output, not noise. */
+const MALFORMED_JSON_FLOOD = 20;
+
+/**
+ * Classifies a finished run into a retryable failure class. Aborts and limit
+ * stops (timeout, budget) are deliberate and never retried.
+ */
+export function classifyFailure(
+	run: RunSubagentResult,
+): RetryableFailure | undefined {
+	if (run.spawnError) return "spawn";
+	if (run.stopReason === "error") return "provider";
+	if (
+		run.malformedJsonLines >= MALFORMED_JSON_FLOOD &&
+		(run.exitCode !== 0 || !run.finalText)
+	)
+		return "malformed";
+	return undefined;
+}
+
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+	return policy.backoffMs * 2 ** (attempt - 1);
+}
+
+export function sleep(ms: number, signal: AbortSignal | undefined) {
+	return new Promise<void>((resolve) => {
+		if (signal?.aborted || ms <= 0) return resolve();
+		const timer = setTimeout(done, ms);
+		function done() {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		}
+		signal?.addEventListener("abort", done, { once: true });
+	});
+}
@@ -1,13 +1,25 @@
-import { spawn } from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import type { Message } from "@earendil-works/pi-ai";
+import { createRunCollector } from "./collector.js";
+import { runSubagentInProcess } from "./inprocess.js";
+
+export const SUBAGENT_RUNNERS = ["spawn", "in-process"] as const;
+
+export type SubagentRunner = (typeof SUBAGENT_RUNNERS)[number];
+
+export type SubagentToolCallStatus = "running" | "ok" | "error";
 
 export interface SubagentToolCall {
 	id?: string;
 	name: string;
 	arguments: Record<string, unknown>;
+	/** Filled in from tool execution events and toolResult messages, matched by id. */
+	status?: SubagentToolCallStatus;
+	durationMs?: number;
+	resultPreview?: string;
 }
 
 export interface UsageStats {
@@ -20,20 +32,57 @@ export interface UsageStats {
 	turns: number;
 }
 
+export interface SubagentToolResultPreview {
+	toolName: string;
+	isError: boolean;
+	preview: string;
+}
+
+export interface SubagentProgress {
+	text: string;
+	/** Text of the assistant message currently being streamed. */
+	partialText: string;
+	/** Tools that started executing and have not finished yet. */
+	runningTools: string[];
+	lastToolResult?: SubagentToolResultPreview;
+	toolCalls: SubagentToolCall[];
+	usage: UsageStats;
+	model?: string;
+	stopReason?: string;
+}
+
+export interface SubagentBudget {
+	maxCost?: number;
+	maxInputTokens?: number;
+	maxOutputTokens?: number;
+	maxTurns?: number;
+}
+
 export interface RunSubagentOptions {
 	cwd: string;
 	task: string;
 	systemPrompt: string;
+	/** Absolute paths of images sent along with the task. */
+	images?: string[];
 	model?: string;
 	tools?: string[];
+	thinking?: string;
+	budget?: SubagentBudget;
+	timeoutMs?: number;
+	stallTimeoutMs?: number;
+	env?: Record<string, string>;
+	flags?: string[];
+	/**
+	 * Force the child's Gondolin sandbox on or off. When on, the child refuses
+	 * to run tools on the host if the VM cannot start, and fails to launch if
+	 * the sandbox extension is not loaded.
+	 */
+	sandbox?: boolean;
+	/** Backend to run the child with. Defaults to spawning `pi`. */
+	runner?: SubagentRunner;
+	sessionFile?: string;
 	signal?: AbortSignal;
-	onProgress?: (state: {
-		text: string;
-		toolCalls: SubagentToolCall[];
-		usage: UsageStats;
-		model?: string;
-		stopReason?: string;
-	}) => void;
+	onProgress?: (state: SubagentProgress) => void;
 }
 
 export interface RunSubagentResult {
@@ -46,45 +95,14 @@ export interface RunSubagentResult {
 	malformedJsonLines: number;
 	stopReason?: string;
 	errorMessage?: string;
+	spawnError?: string;
 	model?: string;
+	/** Backend that actually ran the child. */
+	runner?: SubagentRunner;
 }
 
-interface MessageUsage {
-	input?: number;
-	output?: number;
-	cacheRead?: number;
-	cacheWrite?: number;
-	totalTokens?: number;
-	cost?: { total?: number };
-}
-
-function extractAssistantText(message: Message): string {
-	if (message.role !== "assistant") return "";
-	return message.content
-		.filter(
-			(part): part is { type: "text"; text: string } => part.type === "text",
-		)
-		.map((part) => part.text)
-		.join("\n")
-		.trim();
-}
-
-function extractAssistantToolCalls(message: Message): SubagentToolCall[] {
-	if (message.role !== "assistant") return [];
-	const calls: SubagentToolCall[] = [];
-	for (const part of message.content) {
-		if (part.type !== "toolCall") continue;
-		calls.push({
-			id: part.id,
-			name: part.name,
-			arguments:
-				typeof part.arguments === "object" && part.arguments !== null
-					? (part.arguments as Record<string, unknown>)
-					: {},
-		});
-	}
-	return calls;
-}
+/** Read by tool-overrides.ts in the child: "required" or "off". */
+const GONDOLIN_ENV = "PI_GONDOLIN";
 
 function createPromptFile(
 	prompt: string,
@@ -96,64 +114,64 @@ function createPromptFile(
 	return { dir, file };
 }
 
-export async function runSubagent(
+async function spawnSubagent(
 	options: RunSubagentOptions,
 ): Promise<RunSubagentResult> {
-	const args = ["--mode", "json", "-p", "--no-session"];
+	const args = ["--mode", "json", "-p"];
+	if (options.sessionFile) args.push("--session", options.sessionFile);
+	else args.push("--no-session");
 	if (options.model) args.push("--model", options.model);
+	if (options.thinking) args.push("--thinking", options.thinking);
 	if (options.tools && options.tools.length > 0)
 		args.push("--tools", options.tools.join(","));
+	if (options.flags) args.push(...options.flags);
+	if (options.sandbox) args.push("--gondolin=true");
+	const env =
+		options.sandbox === undefined
+			? options.env
+			: {
+					...options.env,
+					[GONDOLIN_ENV]: options.sandbox ? "required" : "off",
+				};
 
 	const promptFile = createPromptFile(options.systemPrompt);
 	if (promptFile) args.push("--append-system-prompt", promptFile.file);
+	for (const image of options.images ?? []) args.push(`@${image}`);
 	args.push(options.task);
 
-	const messages: Message[] = [];
-	const toolCalls: SubagentToolCall[] = [];
-	const seenToolCalls = new Set<string>();
 	let stderr = "";
-	let finalText = "";
-	let stopReason: string | undefined;
-	let errorMessage: string | undefined;
-	let model: string | undefined;
+	let spawnError: string | undefined;
 	let malformedJsonLines = 0;
-	let aborted = false;
-	const usage: UsageStats = {
-		input: 0,
-		output: 0,
-		cacheRead: 0,
-		cacheWrite: 0,
-		cost: 0,
-		contextTokens: 0,
-		turns: 0,
-	};
 
 	try {
+		let proc: ChildProcess | undefined;
+		const collector = createRunCollector(options, () => {
+			if (!proc) return;
+			const child = proc;
+			child.kill("SIGTERM");
+			setTimeout(() => {
+				if (child.exitCode === null && child.signalCode === null)
+					child.kill("SIGKILL");
+			}, 2000);
+		});
 		const exitCode = await new Promise<number>((resolve) => {
-			const proc = spawn("pi", args, {
+			const child = spawn("pi", args, {
 				cwd: options.cwd,
+				env: env ? { ...process.env, ...env } : undefined,
 				shell: false,
 				stdio: ["ignore", "pipe", "pipe"],
 			});
+			proc = child;
+			if (collector.aborted) child.kill("SIGTERM");
 			let settled = false;
 			const resolveOnce = (code: number) => {
 				if (settled) return;
 				settled = true;
+				collector.finish();
 				resolve(code);
 			};
 
 			let buffer = "";
-
-			const emitProgress = () => {
-				options.onProgress?.({
-					text: finalText,
-					toolCalls: [...toolCalls],
-					usage: { ...usage },
-					model,
-					stopReason,
-				});
-			};
-
 			const processLine = (line: string) => {
 				const trimmed = line.trim();
 				if (!trimmed) return;
@@ -164,100 +182,43 @@ export async function runSubagent(
 					malformedJsonLines++;
 					return;
 				}
-				if (!event || typeof event !== "object") return;
-				const messageEnd = event as { type?: unknown; message?: unknown };
-				if (messageEnd.type !== "message_end" || !messageEnd.message) return;
-				const message = messageEnd.message as Message;
-				messages.push(message);
-				if (message.role !== "assistant") return;
-				usage.turns++;
-				const messageUsage = (message as { usage?: MessageUsage }).usage;
-				if (messageUsage) {
-					usage.input += messageUsage.input || 0;
-					usage.output += messageUsage.output || 0;
-					usage.cacheRead += messageUsage.cacheRead || 0;
-					usage.cacheWrite += messageUsage.cacheWrite || 0;
-					usage.cost += messageUsage.cost?.total || 0;
-					usage.contextTokens = messageUsage.totalTokens || usage.contextTokens;
-				}
-
-				const messageToolCalls = extractAssistantToolCalls(message);
-				let changed = false;
-				for (const call of messageToolCalls) {
-					const key = call.id
-						? call.id
-						: `${call.name}:${JSON.stringify(call.arguments)}`;
-					if (seenToolCalls.has(key)) continue;
-					seenToolCalls.add(key);
-					toolCalls.push(call);
-					changed = true;
-				}
-
-				const text = extractAssistantText(message);
-				if (text) {
-					finalText = text;
-					changed = true;
-				}
-				if (message.stopReason) {
-					stopReason = message.stopReason;
-					changed = true;
-				}
-				if (message.errorMessage) errorMessage = message.errorMessage;
-				if (message.model) model = message.model;
-				if (changed) emitProgress();
+				collector.handleEvent(event);
 			};
 
-			proc.stdout.on("data", (data) => {
+			child.stdout.on("data", (data) => {
 				buffer += data.toString();
 				const lines = buffer.split("\n");
 				buffer = lines.pop() ?? "";
 				for (const line of lines) processLine(line);
 			});
 
-			proc.stderr.on("data", (data) => {
+			child.stderr.on("data", (data) => {
 				stderr += data.toString();
 			});
 
-			proc.on("close", (code) => {
+			child.on("close", (code) => {
 				if (buffer.trim()) processLine(buffer);
 				resolveOnce(code ?? 0);
 			});
 
-			proc.on("error", (error) => {
-				errorMessage = error.message;
+			child.on("error", (error) => {
+				collector.fail(error.message);
+				spawnError = error.message;
 				stderr += `${error.name}: ${error.message}`;
 				resolveOnce(1);
 			});
-
-			if (options.signal) {
-				const kill = () => {
-					aborted = true;
-					proc.kill("SIGTERM");
-					setTimeout(() => {
-						if (!proc.killed) proc.kill("SIGKILL");
-					}, 2000);
-				};
-				if (options.signal.aborted) kill();
-				else options.signal.addEventListener("abort", kill, { once: true });
-			}
 		});
 
-		if (aborted) {
+		if (collector.aborted) {
 			throw new Error("Subagent aborted");
 		}
 
-		return {
-			exitCode,
+		return collector.result(exitCode, {
 			stderr,
-			messages,
-			finalText,
-			toolCalls,
-			usage,
 			malformedJsonLines,
-			stopReason,
-			errorMessage,
-			model,
-		};
+			spawnError,
+			runner: "spawn",
+		});
 	} finally {
 		if (promptFile) {
 			try {
@@ -269,3 +230,18 @@ export async function runSubagent(
 		}
 	}
 }
+
+/**
+ * Runs a subagent with the backend it asked for. The in-process backend hands
+ * runs it cannot honour (env, extra flags, sandboxing, unknown models) to the
+ * spawn backend.
+ */
+export async function runSubagent(
+	options: RunSubagentOptions,
+): Promise<RunSubagentResult> {
+	if (options.runner === "in-process") {
+		const result = await runSubagentInProcess(options);
+		if (result) return result;
+	}
+	return spawnSubagent(options);
+}
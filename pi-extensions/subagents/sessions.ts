@@ -0,0 +1,157 @@
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	CURRENT_SESSION_VERSION,
+	type ExtensionContext,
+	type SessionHeader,
+} from "@earendil-works/pi-coding-agent";
+import type { SubagentDetails, SubagentResult } from "./results.js";
+
+export interface ChildSessionTarget {
+	dir: string;
+	parentSession?: string;
+}
+
+export interface ChildSession {
+	agent: string;
+	task: string;
+	sessionFile: string;
+}
+
+const SUBAGENT_TOOL_NAMES = new Set(["subagent", "subagent_result"]);
+
+/**
+ * Child sessions live next to the parent session, grouped by parent id, so they
+ * stay out of the regular /resume list but remain easy to find on disk.
+ */
+export function childSessionTarget(
+	ctx: ExtensionContext,
+): ChildSessionTarget | undefined {
+	const parentSession = ctx.sessionManager.getSessionFile();
+	if (!parentSession) return undefined;
+	return {
+		dir: path.join(
+			ctx.sessionManager.getSessionDir(),
+			"subagents",
+			ctx.sessionManager.getSessionId(),
+		),
+		parentSession,
+	};
+}
+
+/**
+ * Runs that are not persisted still keep their session here so they can be
+ * resumed with a follow-up. Transcripts hold file contents and env, so the
+ * directory is private to the user, created per process on first use and
+ * removed when the parent session ends.
+ */
+let scratchSessionDir: string | undefined;
+
+export function scratchSessionTarget(): ChildSessionTarget {
+	scratchSessionDir ??= fs.mkdtempSync(
+		path.join(os.tmpdir(), "pi-subagent-runs-"),
+	);
+	return { dir: scratchSessionDir };
+}
+
+export function removeScratchSessions(): void {
+	if (!scratchSessionDir) return;
+	fs.rmSync(scratchSessionDir, { recursive: true, force: true });
+	scratchSessionDir = undefined;
+}
+
+function isScratchSession(file: string): boolean {
+	return path.dirname(file) === scratchSessionDir;
+}
+
+/** Short run id derived from the child session id in the file name. */
+export function runIdFromSessionFile(file: string): string | undefined {
+	return path.basename(file).match(/_([0-9a-f]{8})-[0-9a-f-]{27}\.jsonl$/)?.[1];
+}
+
+/** Working directory recorded in a child session's header. */
+export function readSessionCwd(file: string): string | undefined {
+	try {
+		const header = JSON.parse(
+			fs.readFileSync(file, "utf-8").split("\n", 1)[0],
+		) as Partial<SessionHeader>;
+		return typeof header.cwd === "string" ? header.cwd : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Pre-create the child session file with a header pointing at the parent, so the
+ * spawned pi process appends to it via --session instead of starting a fresh one.
+ */
+export function createChildSessionFile(
+	target: ChildSessionTarget,
+	cwd: string,
+): string {
+	fs.mkdirSync(target.dir, { recursive: true, mode: 0o700 });
+	const timestamp = new Date().toISOString();
+	const header: SessionHeader = {
+		type: "session",
+		version: CURRENT_SESSION_VERSION,
+		id: randomUUID(),
+		timestamp,
+		cwd,
+		parentSession: target.parentSession,
+	};
+	const file = path.join(
+		target.dir,
+		`${timestamp.replace(/[:.]/g, "-")}_${header.id}.jsonl`,
+	);
+	fs.writeFileSync(file, `${JSON.stringify(header)}\n`, {
+		encoding: "utf-8",
+		mode: 0o600,
+	});
+	return file;
+}
+
+function subagentResults(ctx: ExtensionContext): SubagentResult[] {
+	const results: SubagentResult[] = [];
+	for (const entry of ctx.sessionManager.getBranch()) {
+		if (entry.type !== "message") continue;
+		const msg = entry.message;
+		if (msg.role !== "toolResult" || !SUBAGENT_TOOL_NAMES.has(msg.toolName))
+			continue;
+		const details = msg.details as SubagentDetails | undefined;
+		results.push(...(details?.results ?? []));
+		if (details?.synthesis) results.push(details.synthesis);
+	}
+	return results;
+}
+
+/** Latest result of a run on the current branch, which holds its session file. */
+export function findSubagentRun(
+	ctx: ExtensionContext,
+	runId: string,
+): SubagentResult | undefined {
+	return subagentResults(ctx)
+		.reverse()
+		.find((result) => result.runId === runId && result.sessionFile);
+}
+
+export function collectChildSessions(ctx: ExtensionContext): ChildSession[] {
+	const sessions: ChildSession[] = [];
+	const seen = new Set<string>();
+	for (const result of subagentResults(ctx)) {
+		if (
+			!result.sessionFile ||
+			isScratchSession(result.sessionFile) ||
+			seen.has(result.sessionFile)
+		)
+			continue;
+		seen.add(result.sessionFile);
+		sessions.push({
+			agent: result.agent,
+			task: result.task,
+			sessionFile: result.sessionFile,
+		});
+	}
+	return sessions;
+}
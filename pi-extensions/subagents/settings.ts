@@ -0,0 +1,67 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	parseByteSize,
+	positiveInteger,
+	type SubagentLimits,
+} from "./limits.js";
+
+export const SUBAGENT_SETTINGS_PATH = path.join(
+	os.homedir(),
+	".pi",
+	"agent",
+	"subagents.json",
+);
+
+export interface SubagentSettings {
+	/** Model aliases such as `auto-smart`, each an ordered list of model ids or patterns. */
+	aliases: Record<string, string[]>;
+	/** Overrides for the built-in fan-out, concurrency and output limits. */
+	limits: Partial<SubagentLimits>;
+}
+
+function aliasesValue(value: unknown): Record<string, string[]> {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+	const aliases: Record<string, string[]> = {};
+	for (const [name, raw] of Object.entries(value)) {
+		const list = (Array.isArray(raw) ? raw : [raw]).filter(
+			(item): item is string => typeof item === "string" && item.trim() !== "",
+		);
+		if (list.length > 0) aliases[name] = list.map((item) => item.trim());
+	}
+	return aliases;
+}
+
+function limitsValue(value: unknown): Partial<SubagentLimits> {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+	const raw = value as Record<string, unknown>;
+	const modelConcurrency: Record<string, number> = {};
+	if (raw.models && typeof raw.models === "object") {
+		for (const [model, limit] of Object.entries(raw.models)) {
+			const parsed = positiveInteger(limit);
+			if (parsed) modelConcurrency[model] = parsed;
+		}
+	}
+	return {
+		maxParallelTasks: positiveInteger(raw.maxParallelTasks),
+		concurrency: positiveInteger(raw.concurrency),
+		outputCap: parseByteSize(raw.outputCap),
+		modelConcurrency,
+	};
+}
+
+export function loadSubagentSettings(): SubagentSettings {
+	try {
+		if (!fs.existsSync(SUBAGENT_SETTINGS_PATH))
+			return { aliases: {}, limits: {} };
+		const raw = fs.readFileSync(SUBAGENT_SETTINGS_PATH, "utf8");
+		const parsed = JSON.parse(raw) as { aliases?: unknown; limits?: unknown };
+		return {
+			aliases: aliasesValue(parsed.aliases),
+			limits: limitsValue(parsed.limits),
+		};
+	} catch {
+		return { aliases: {}, limits: {} };
+	}
+}
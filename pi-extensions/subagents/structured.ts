@@ -0,0 +1,175 @@
+import { Errors } from "typebox/schema";
+import { isFailedStop } from "./results.js";
+import {
+	type RunSubagentOptions,
+	type RunSubagentResult,
+	runSubagent,
+	type SubagentBudget,
+	type UsageStats,
+} from "./runner.js";
+
+export type OutputSchema = Record<string, unknown>;
+
+export interface StructuredRunResult extends RunSubagentResult {
+	structuredOutput?: unknown;
+	structuredOutputErrors?: string[];
+}
+
+/** Correction turns offered to the child before its output is reported as invalid. */
+const MAX_CORRECTIONS = 1;
+
+export function structuredOutputInstructions(schema: OutputSchema): string {
+	return `## Output format
+
+Your final message must be a single JSON value matching this JSON schema, with no prose before or after it:
+
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\``;
+}
+
+function extractJson(text: string): unknown {
+	const trimmed = text.trim();
+	const fenced = [...trimmed.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)].pop();
+	const candidates = [trimmed, fenced?.[1]?.trim()];
+	const start = trimmed.search(/[[{]/);
+	const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+	if (start !== -1 && end > start)
+		candidates.push(trimmed.slice(start, end + 1));
+	for (const candidate of candidates) {
+		if (!candidate) continue;
+		try {
+			return JSON.parse(candidate);
+		} catch {}
+	}
+	throw new Error("final message is not valid JSON");
+}
+
+export function parseStructuredOutput(
+	text: string,
+	schema: OutputSchema,
+): { value?: unknown; errors: string[] } {
+	let value: unknown;
+	try {
+		value = extractJson(text);
+	} catch (error) {
+		return { errors: [error instanceof Error ? error.message : String(error)] };
+	}
+	const [valid, errors] = Errors(schema, value);
+	if (valid) return { value, errors: [] };
+	return {
+		errors: errors.map(
+			(error) => `${error.instancePath || "/"}: ${error.message}`,
+		),
+	};
+}
+
+function correctionPrompt(errors: string[]): string {
+	return `Your final message did not match the required JSON schema:
+
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply again with only the corrected JSON value. Do not call any tools.`;
+}
+
+function mergeRuns(
+	first: RunSubagentResult,
+	second: RunSubagentResult,
+): RunSubagentResult {
+	const usage = { ...second.usage };
+	for (const key of [
+		"input",
+		"output",
+		"cacheRead",
+		"cacheWrite",
+		"cost",
+		"turns",
+	] as const)
+		usage[key] += first.usage[key];
+	return {
+		...second,
+		stderr: [first.stderr, second.stderr].filter(Boolean).join("\n"),
+		messages: [...first.messages, ...second.messages],
+		toolCalls: [...first.toolCalls, ...second.toolCalls],
+		usage,
+		malformedJsonLines: first.malformedJsonLines + second.malformedJsonLines,
+	};
+}
+
+/**
+ * Budget and timeout left for a correction turn once the first run used
+ * `usage` over `elapsedMs`, so both turns together stay within the caller's
+ * limits. Undefined when any limit is already used up.
+ */
+function remainingLimits(
+	options: RunSubagentOptions,
+	usage: UsageStats,
+	elapsedMs: number,
+): { budget?: SubagentBudget; timeoutMs?: number } | undefined {
+	const { budget, timeoutMs } = options;
+	const left = (limit: number | undefined, used: number) =>
+		limit === undefined ? undefined : limit - used;
+	const remaining = {
+		budget: budget && {
+			maxCost: left(budget.maxCost, usage.cost),
+			maxInputTokens: left(
+				budget.maxInputTokens,
+				usage.input + usage.cacheRead + usage.cacheWrite,
+			),
+			maxOutputTokens: left(budget.maxOutputTokens, usage.output),
+			maxTurns: left(budget.maxTurns, usage.turns),
+		},
+		timeoutMs: left(timeoutMs, elapsedMs),
+	};
+	const limits = [
+		...Object.values(remaining.budget ?? {}),
+		remaining.timeoutMs,
+	];
+	return limits.some((limit) => limit !== undefined && limit <= 0)
+		? undefined
+		: remaining;
+}
+
+/**
+ * Runs a subagent whose final message must match `schema`. On a mismatch the
+ * child is resumed from its session for a correction turn within what is left
+ * of the run's budget and timeout.
+ */
+export async function runStructuredSubagent(
+	options: RunSubagentOptions,
+	schema: OutputSchema,
+): Promise<StructuredRunResult> {
+	const systemPrompt = [
+		options.systemPrompt,
+		structuredOutputInstructions(schema),
+	]
+		.filter((part) => part.trim())
+		.join("\n\n");
+	const startedAt = Date.now();
+	let run = await runSubagent({ ...options, systemPrompt });
+	for (let correction = 0; ; correction++) {
+		if (isFailedStop(run.exitCode, run.stopReason)) return run;
+		const { value, errors } = parseStructuredOutput(run.finalText, schema);
+		if (errors.length === 0) return { ...run, structuredOutput: value };
+		const remaining = remainingLimits(
+			options,
+			run.usage,
+			Date.now() - startedAt,
+		);
+		if (
+			correction >= MAX_CORRECTIONS ||
+			!options.sessionFile ||
+			!remaining ||
+			options.signal?.aborted
+		)
+			return { ...run, structuredOutputErrors: errors };
+		const corrected = await runSubagent({
+			...options,
+			...remaining,
+			systemPrompt,
+			images: undefined,
+			task: correctionPrompt(errors),
+		});
+		run = mergeRuns(run, corrected);
+	}
+}
@@ -0,0 +1,113 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
+import type { AgentConfig } from "./agents.js";
+
+const TRUST_FILE_PATH = path.join(
+	os.homedir(),
+	".pi",
+	"agent",
+	"subagent-trust.json",
+);
+
+interface TrustedProject {
+	approvedAt: string;
+	/** Agent file name to sha256 of its content at approval time. */
+	files: Record<string, string>;
+}
+
+type TrustStore = Record<string, TrustedProject>;
+
+function loadTrustStore(): TrustStore {
+	try {
+		if (!fs.existsSync(TRUST_FILE_PATH)) return {};
+		const parsed = JSON.parse(fs.readFileSync(TRUST_FILE_PATH, "utf8"));
+		return parsed && typeof parsed === "object" ? (parsed as TrustStore) : {};
+	} catch {
+		return {};
+	}
+}
+
+function saveTrustStore(store: TrustStore): void {
+	fs.mkdirSync(path.dirname(TRUST_FILE_PATH), { recursive: true });
+	fs.writeFileSync(
+		TRUST_FILE_PATH,
+		`${JSON.stringify(store, null, 2)}\n`,
+		"utf8",
+	);
+}
+
+function hashFile(filePath: string): string | undefined {
+	try {
+		return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+	} catch {
+		return undefined;
+	}
+}
+
+/** Project agents whose file is new or changed since the directory was last approved. */
+export function untrustedProjectAgents(
+	agents: AgentConfig[],
+	projectAgentsDir: string | null,
+): AgentConfig[] {
+	if (!projectAgentsDir) return [];
+	const approved = loadTrustStore()[projectAgentsDir]?.files ?? {};
+	return agents.filter((agent) => {
+		if (agent.source !== "project" || !agent.filePath) return false;
+		const hash = hashFile(agent.filePath);
+		return !hash || approved[path.basename(agent.filePath)] !== hash;
+	});
+}
+
+function describeAgent(agent: AgentConfig): string {
+	const tools = agent.tools?.length ? agent.tools.join(", ") : "default tools";
+	const sandbox = agent.sandbox === false ? ", outside the sandbox" : "";
+	const lines = [`- ${agent.name} (${tools}${sandbox}): ${agent.filePath}`];
+	// Flags, env and cwd reach the child process as-is and can override the
+	// tools above (a later --tools wins) or load code, so they are shown verbatim.
+	if (agent.flags?.length) lines.push(`    flags: ${agent.flags.join(" ")}`);
+	for (const [key, value] of Object.entries(agent.env ?? {}))
+		lines.push(`    env: ${key}=${value}`);
+	if (agent.cwd) lines.push(`    cwd: ${agent.cwd}`);
+	return lines.join("\n");
+}
+
+/**
+ * Project agents come from whatever repository is checked out, so each one only
+ * runs once the user approved its current file content. Approving records the
+ * agents that were shown, not the rest of the directory.
+ * Returns an error message when the agents may not run.
+ */
+export async function ensureProjectAgentsTrusted(
+	agents: AgentConfig[],
+	projectAgentsDir: string | null,
+	ctx: ExtensionContext,
+): Promise<string | undefined> {
+	const untrusted = untrustedProjectAgents(agents, projectAgentsDir);
+	if (untrusted.length === 0 || !projectAgentsDir) return undefined;
+	const list = untrusted.map(describeAgent).join("\n");
+	if (!ctx.hasUI)
+		return `Refusing to run untrusted project agents from ${projectAgentsDir}:\n${list}\n\nApprove them in an interactive session first.`;
+	const shown: Record<string, string> = {};
+	for (const agent of untrusted) {
+		const hash = agent.filePath ? hashFile(agent.filePath) : undefined;
+		if (agent.filePath && hash) shown[path.basename(agent.filePath)] = hash;
+	}
+	const approved = await ctx.ui.confirm(
+		"Trust project agents?",
+		`These agents are defined by the repository in ${projectAgentsDir} and are new or changed since you last approved them:\n\n${list}\n\nThey run with their own prompts and tools. Trust these agents?`,
+	);
+	if (!approved)
+		return `Project agents in ${projectAgentsDir} were not trusted:\n${list}`;
+	const store = loadTrustStore();
+	store[projectAgentsDir] = {
+		approvedAt: new Date().toISOString(),
+		files: { ...store[projectAgentsDir]?.files, ...shown },
+	};
+	try {
+		saveTrustStore(store);
+	} catch {}
+	return undefined;
+}
@@ -0,0 +1,130 @@
+import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
+import {
+	formatUsage,
+	type SubagentDetails,
+	type SubagentResult,
+	sumUsageStats,
+} from "./results.js";
+import type { UsageStats } from "./runner.js";
+
+/** Custom session entry holding a background job's final details. */
+export const JOB_USAGE_ENTRY = "subagent-job";
+
+export interface UsageRecord {
+	agent: string;
+	model: string;
+	/** Local calendar day of the tool result, YYYY-MM-DD. */
+	day: string;
+	usage: UsageStats;
+}
+
+function localDay(timestamp: string): string {
+	const date = new Date(timestamp);
+	if (Number.isNaN(date.getTime())) return "unknown";
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toRecords(results: SubagentResult[], day: string): UsageRecord[] {
+	return results
+		.filter(
+			(result) =>
+				result.usage &&
+				!result.running &&
+				!result.pending &&
+				!result.cached &&
+				result.stopReason !== "skipped",
+		)
+		.map((result) => ({
+			agent: result.agent,
+			model: result.model ?? "default",
+			day,
+			usage: result.usage as UsageStats,
+		}));
+}
+
+function detailsRecords(details: SubagentDetails, day: string): UsageRecord[] {
+	return toRecords(
+		details.synthesis
+			? [...details.results, details.synthesis]
+			: details.results,
+		day,
+	);
+}
+
+/**
+ * Rebuilds the ledger from subagent tool results on the current branch.
+ * Background jobs are counted once by id: from the entry recorded when the job
+ * finished, or the last subagent_result that reported them, since polling
+ * returns the same runs again.
+ */
+export function collectUsageRecords(ctx: ExtensionContext): UsageRecord[] {
+	const records: UsageRecord[] = [];
+	const jobs = new Map<string, UsageRecord[]>();
+	for (const entry of ctx.sessionManager.getBranch()) {
+		if (entry.type === "custom" && entry.customType === JOB_USAGE_ENTRY) {
+			const details = entry.data as SubagentDetails | undefined;
+			if (details?.jobId && details.results)
+				jobs.set(
+					details.jobId,
+					detailsRecords(details, localDay(entry.timestamp)),
+				);
+			continue;
+		}
+		if (entry.type !== "message") continue;
+		const msg = entry.message;
+		if (msg.role !== "toolResult") continue;
+		if (msg.toolName !== "subagent" && msg.toolName !== "subagent_result")
+			continue;
+		const details = msg.details as SubagentDetails | undefined;
+		if (!details?.results) continue;
+		const entryRecords = detailsRecords(details, localDay(entry.timestamp));
+		if (details.jobId) jobs.set(details.jobId, entryRecords);
+		else records.push(...entryRecords);
+	}
+	for (const jobRecords of jobs.values()) records.push(...jobRecords);
+	return records;
+}
+
+export function totalUsage(records: UsageRecord[]): UsageStats {
+	return sumUsageStats(records.map((record) => record.usage));
+}
+
+function groupSection(
+	title: string,
+	records: UsageRecord[],
+	keyOf: (record: UsageRecord) => string,
+	chronological = false,
+): string {
+	const groups = new Map<string, UsageRecord[]>();
+	for (const record of records) {
+		const key = keyOf(record);
+		groups.set(key, [...(groups.get(key) ?? []), record]);
+	}
+	const rows = [...groups.entries()]
+		.map(([key, group]) => ({ key, group, usage: totalUsage(group) }))
+		.sort((a, b) =>
+			chronological
+				? a.key.localeCompare(b.key)
+				: b.usage.cost - a.usage.cost || a.key.localeCompare(b.key),
+		);
+	return [
+		`${title}:`,
+		...rows.map(
+			({ key, group, usage }) =>
+				`  ${key}: ${group.length} run${group.length === 1 ? "" : "s"} · ${formatUsage(usage, undefined)}`,
+		),
+	].join("\n");
+}
+
+export function formatUsageReport(records: UsageRecord[]): string {
+	if (records.length === 0) return "No subagent runs in this session yet.";
+	const total = totalUsage(records);
+	return [
+		`Total: ${records.length} run${records.length === 1 ? "" : "s"} · ${formatUsage(total, undefined)}`,
+		groupSection("By agent", records, (record) => record.agent),
+		groupSection("By model", records, (record) => record.model),
+		groupSection("By day", records, (record) => record.day, true),
+	].join("\n\n");
+}
@@ -0,0 +1,139 @@
+import { execFile } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+const PATCH_DIR = path.join(os.tmpdir(), "pi-subagent-patches");
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/** Patches up to this size are kept inline; larger ones only live in the patch file. */
+const INLINE_PATCH_LIMIT = 20 * 1024;
+
+export interface SubagentWorktree {
+	root: string;
+	/** The task cwd mapped into the worktree. */
+	cwd: string;
+	repoRoot: string;
+	baseCommit: string;
+}
+
+export interface WorktreeChanges {
+	repoRoot: string;
+	baseCommit: string;
+	files: string[];
+	/** The patch itself, only when it fits INLINE_PATCH_LIMIT. Results are stored in the session. */
+	patch?: string;
+	patchBytes: number;
+	patchFile?: string;
+	/** Why the changes could not be collected or saved. */
+	error?: string;
+	/** Worktree left on disk because its changes would otherwise be lost. */
+	keptWorktree?: string;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync("git", args, {
+		cwd,
+		maxBuffer: GIT_MAX_BUFFER,
+	});
+	return stdout;
+}
+
+/**
+ * Check out HEAD of the repository containing `cwd` into a detached temporary
+ * worktree. Uncommitted changes in the parent checkout are not carried over.
+ */
+export async function createWorktree(cwd: string): Promise<SubagentWorktree> {
+	const repoRoot = (await git(cwd, ["rev-parse", "--show-toplevel"])).trim();
+	const baseCommit = (await git(repoRoot, ["rev-parse", "HEAD"])).trim();
+	const root = path.join(
+		os.tmpdir(),
+		`pi-subagent-${randomUUID().slice(0, 8)}`,
+	);
+	await git(repoRoot, ["worktree", "add", "--detach", root, baseCommit]);
+	const relative = path.relative(repoRoot, fs.realpathSync(cwd));
+	return {
+		root,
+		cwd:
+			relative.startsWith("..") || path.isAbsolute(relative)
+				? root
+				: path.join(root, relative),
+		repoRoot,
+		baseCommit,
+	};
+}
+
+/**
+ * Diff everything the subagent left behind, including new files and any commits
+ * it made, against the base commit. The patch is also written to a temp file so
+ * it survives worktree removal and can be applied with `git apply`. When the
+ * diff fails or a patch too large to inline cannot be saved, `keptWorktree` is
+ * set and the caller must leave the worktree in place.
+ */
+export async function collectWorktreeChanges(
+	worktree: SubagentWorktree,
+): Promise<WorktreeChanges> {
+	const base = {
+		repoRoot: worktree.repoRoot,
+		baseCommit: worktree.baseCommit,
+	};
+	let patch: string;
+	let files: string[];
+	try {
+		await git(worktree.root, ["add", "-A"]);
+		const diffArgs = ["diff", "--cached", worktree.baseCommit];
+		patch = await git(worktree.root, [...diffArgs, "--binary"]);
+		files = (await git(worktree.root, [...diffArgs, "--name-only"]))
+			.split("\n")
+			.filter(Boolean);
+	} catch (error) {
+		return {
+			...base,
+			files: [],
+			patchBytes: 0,
+			error: error instanceof Error ? error.message.trim() : String(error),
+			keptWorktree: worktree.root,
+		};
+	}
+	const patchBytes = Buffer.byteLength(patch, "utf-8");
+	const changes: WorktreeChanges = {
+		...base,
+		files,
+		patch: patchBytes <= INLINE_PATCH_LIMIT ? patch : undefined,
+		patchBytes,
+	};
+	if (!patch) return changes;
+	try {
+		fs.mkdirSync(PATCH_DIR, { recursive: true });
+		const patchFile = path.join(
+			PATCH_DIR,
+			`${path.basename(worktree.root)}.patch`,
+		);
+		fs.writeFileSync(patchFile, patch, "utf-8");
+		changes.patchFile = patchFile;
+	} catch (error) {
+		changes.error = error instanceof Error ? error.message : String(error);
+		if (changes.patch === undefined) changes.keptWorktree = worktree.root;
+	}
+	return changes;
+}
+
+export async function removeWorktree(worktree: SubagentWorktree) {
+	try {
+		await git(worktree.repoRoot, [
+			"worktree",
+			"remove",
+			"--force",
+			worktree.root,
+		]);
+	} catch {
+		fs.rmSync(worktree.root, { recursive: true, force: true });
+		try {
+			await git(worktree.repoRoot, ["worktree", "prune"]);
+		} catch {}
+	}
+}
@@ -8,6 +8,10 @@
  * It also customizes TUI rendering for `read` and `write` so calls/results are easier to scan
  * (shortened paths, line counts, range hints), while keeping tool names unchanged for the model.
  *
+ * Subagent processes are steered through the `PI_GONDOLIN` environment variable: `required`
+ * forces the sandbox on and blocks tools instead of falling back to the host when the VM cannot
+ * start, `off` forces it off. State changes are published on the `gondolin:state` event.
+ *
  * In short: same tool interface for the agent, optional sandboxed execution backend for users.
  */
 import fs from "node:fs";
@@ -43,6 +47,8 @@ const GONDOLIN_CONFIG_PATH = path.join(
 	"agent",
 	"gondolin.json",
 );
+const GONDOLIN_ENV = "PI_GONDOLIN";
+const GONDOLIN_STATE_EVENT = "gondolin:state";
 
 function shortenPath(inputPath: string): string {
 	const home = os.homedir();
@@ -299,6 +305,7 @@ export default function (pi: ExtensionAPI) {
 	const localBash = createBashTool(localCwd);
 
 	let sandboxEnabled = false;
+	let sandboxRequired = false;
 	let vm: VM | null = null;
 	let vmStarting: Promise<VM> | null = null;
 	let vmStartEpoch = 0;
@@ -331,7 +338,20 @@ export default function (pi: ExtensionAPI) {
 		}
 	};
 
-	const bashOps = createGondolinBashOps(localCwd, ensureVm);
+	const unavailableMessage = (err: unknown) =>
+		`Gondolin required but unavailable (${err instanceof Error ? err.message : String(err)}); tools blocked`;
+
+	// In required mode a VM failure must block the tool, never fall back to the host.
+	const toolVm = async (ctx?: ExtensionContext): Promise<VM> => {
+		try {
+			return await ensureVm(ctx);
+		} catch (err) {
+			if (!sandboxRequired) throw err;
+			throw new Error(unavailableMessage(err));
+		}
+	};
+
+	const bashOps = createGondolinBashOps(localCwd, toolVm);
 
 	const setReadyStatus = (ctx: ExtensionContext) => {
 		const allToolNames = pi.getAllTools().map((tool) => tool.name);
@@ -365,6 +385,7 @@ export default function (pi: ExtensionAPI) {
 			} catch {}
 		}
 		ctx.ui.setStatus("gondolin", undefined);
+		pi.events.emit(GONDOLIN_STATE_EVENT, { enabled: false });
 	};
 
 	const enableSandbox = async (ctx: ExtensionContext) => {
@@ -372,12 +393,20 @@ export default function (pi: ExtensionAPI) {
 		try {
 			await ensureVm(ctx);
 			setReadyStatus(ctx);
+			pi.events.emit(GONDOLIN_STATE_EVENT, { enabled: true });
 		} catch (err) {
+			if (sandboxRequired) {
+				ctx.ui.setStatus(
+					"gondolin",
+					ctx.ui.theme.fg("error", unavailableMessage(err)),
+				);
+				return;
+			}
+			const reason = err instanceof Error ? err.message : String(err);
 			sandboxEnabled = false;
 			await closeVm(vm);
 			vm = null;
 			vmStarting = null;
-			const reason = err instanceof Error ? err.message : String(err);
 			ctx.ui.setStatus(
 				"gondolin",
 				ctx.ui.theme.fg("muted", `Gondolin unavailable (${reason})`),
@@ -387,7 +416,12 @@ export default function (pi: ExtensionAPI) {
 
 	pi.on("session_start", async (_event, ctx) => {
 		const enabledFromFlag = Boolean(pi.getFlag("gondolin"));
-		sandboxEnabled = enabledFromFlag || loadConfiguredGondolinEnabled();
+		const envMode = process.env[GONDOLIN_ENV];
+		sandboxRequired = envMode === "required";
+		sandboxEnabled =
+			envMode === "off"
+				? false
+				: sandboxRequired || enabledFromFlag || loadConfiguredGondolinEnabled();
 		if (!sandboxEnabled) {
 			await disableSandbox(ctx);
 			return;
@@ -454,7 +488,7 @@ export default function (pi: ExtensionAPI) {
 		async execute(id, params, signal, onUpdate, ctx) {
 			if (!sandboxEnabled)
 				return localRead.execute(id, params, signal, onUpdate);
-			const activeVm = await ensureVm(ctx);
+			const activeVm = await toolVm(ctx);
 			const tool = createReadTool(localCwd, {
 				operations: createGondolinReadOps(activeVm, localCwd),
 			});
@@ -509,7 +543,7 @@ export default function (pi: ExtensionAPI) {
 		async execute(id, params, signal, onUpdate, ctx) {
 			if (!sandboxEnabled)
 				return localWrite.execute(id, params, signal, onUpdate);
-			const activeVm = await ensureVm(ctx);
+			const activeVm = await toolVm(ctx);
 			const tool = createWriteTool(localCwd, {
 				operations: createGondolinWriteOps(activeVm, localCwd),
 			});
@@ -547,7 +581,7 @@ export default function (pi: ExtensionAPI) {
 		async execute(id, params, signal, onUpdate, ctx) {
 			if (!sandboxEnabled)
 				return localEdit.execute(id, params, signal, onUpdate);
-			const activeVm = await ensureVm(ctx);
+			const activeVm = await toolVm(ctx);
 			const tool = createEditTool(localCwd, {
 				operations: createGondolinEditOps(activeVm, localCwd),
 			});
@@ -574,7 +608,14 @@ export default function (pi: ExtensionAPI) {
 		if (!sandboxEnabled) return;
 		try {
 			await ensureVm(ctx);
-		} catch {
+		} catch (err) {
+			if (sandboxRequired) {
+				ctx.ui.setStatus(
+					"gondolin",
+					ctx.ui.theme.fg("error", unavailableMessage(err)),
+				);
+				return;
+			}
 			sandboxEnabled = false;
 			ctx.ui.setStatus(
 				"gondolin",